@@ -137,12 +137,6 @@ export class DocsBasicTooltip {}
     }
 
     .arrow {
-      position: absolute;
-      top: -5px;
-      left: 50%;
-      transform: translateX(-50%);
-      width: 10px;
-      height: 5px;
       background: white;
       clip-path: polygon(50% 0%, 0% 100%, 100% 100%);
       border-top: 1px solid #e5e7eb;
@@ -503,34 +497,9 @@ export class DocsAllPlacements {
     }
 
     [data-anchor-arrow] {
-      position: absolute;
       background: #1f2937;
       clip-path: polygon(50% 0%, 0% 100%, 100% 100%);
     }
-
-    [data-side='top'] [data-anchor-arrow] {
-      bottom: -6px;
-      left: 50%;
-      transform: translateX(-50%) rotate(180deg);
-    }
-
-    [data-side='bottom'] [data-anchor-arrow] {
-      top: -6px;
-      left: 50%;
-      transform: translateX(-50%);
-    }
-
-    [data-side='left'] [data-anchor-arrow] {
-      right: -6px;
-      top: 50%;
-      transform: translateY(-50%) rotate(90deg);
-    }
-
-    [data-side='right'] [data-anchor-arrow] {
-      left: -6px;
-      top: 50%;
-      transform: translateY(-50%) rotate(-90deg);
-    }
   `,
 })
 export class DocsWithArrow {}
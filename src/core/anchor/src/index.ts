@@ -5,6 +5,8 @@ export {
   ProtoAnchor,
   // Anchor Arrow Directive
   ProtoAnchorArrow,
+  // Named portal outlet
+  ProtoAnchorOutlet,
   // Structural directive
   ProtoAnchorTarget,
   // Attribute directive for manual control
@@ -15,9 +17,18 @@ export {
   parsePlacement,
   // Types
   type AnchorAlignment,
+  type AnchorFallbackPlacement,
   type AnchorFlipBehavior,
+  type AnchorMatchWidth,
+  type AnchorMountMode,
   type AnchorOffset,
+  type AnchorOpenChangeReason,
   type AnchorPlacement,
+  type AnchorPopoverMode,
+  type AnchorPortal,
+  type AnchorRelationship,
+  type AnchorTargetRef,
+  type AnchorTrigger,
   type AnchorVisibility,
   type ProtoAnchorArrowConfig,
   type ProtoAnchorConfig,
@@ -25,3 +36,27 @@ export {
   type ProtoAnchorTargetConfig,
   type ProtoAnchorTargetContext,
 } from './lib/anchor';
+export { type AnchorAutoFocus } from './lib/anchor-focus';
+export {
+  // Utilities
+  computeSafePolygon,
+  isPointInPolygon,
+  // Types
+  type AnchorHoverTarget,
+  type AnchorPoint,
+} from './lib/anchor-hover';
+export {
+  // Utilities
+  computeAnchorPosition,
+  computeAvailableSize,
+  detectPlacement,
+  resolveFallbackPlacement,
+  resolveVirtualReference,
+  shiftPlacementCoords,
+  supportsCssAnchorPositioning,
+  // Types
+  type AnchorPosition,
+  type AnchorPositionStrategy,
+  type AnchorRect,
+  type AnchorVirtualReference,
+} from './lib/anchor-position';
@@ -0,0 +1,141 @@
+import {
+  FocusMonitor,
+  type FocusOrigin,
+  FocusTrapFactory,
+  InputModalityDetector,
+  InteractivityChecker,
+} from '@angular/cdk/a11y';
+import { DOCUMENT } from '@angular/common';
+import type { Signal } from '@angular/core';
+import {
+  afterRenderEffect,
+  inject,
+  Injector,
+  runInInjectionContext,
+  untracked,
+} from '@angular/core';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What receives focus when a target opens.
+ * - `'none'`: Focus stays where it is
+ * - `'first-tabbable'`: The first tabbable element, or the target itself without one
+ * - any other string: The first element matching that selector
+ * - an element: That element
+ */
+export type AnchorAutoFocus = 'none' | 'first-tabbable' | (string & {}) | HTMLElement;
+
+export interface AnchorFocusOptions {
+  /** Injector to create the effects with, when not called in an injection context. */
+  readonly injector?: Injector;
+  /** The rendered target element, or null while it is not rendered. */
+  readonly target: Signal<HTMLElement | null>;
+  /** The anchor element focus returns to. */
+  readonly anchor: Signal<HTMLElement>;
+  /** Whether the target is open. */
+  readonly open: Signal<boolean>;
+  /** What receives focus when the target opens. */
+  readonly autoFocus: Signal<AnchorAutoFocus>;
+  /** Whether to return focus to the anchor when the target closes with focus inside. */
+  readonly restoreFocus: Signal<boolean>;
+  /** Whether to keep Tab focus inside the target while open. */
+  readonly trapFocus: Signal<boolean>;
+  /** The element the target is rendered into. The focus trap is re-created when it changes. */
+  readonly host?: Signal<HTMLElement | null>;
+}
+
+// ============================================================================
+// Focus Management
+// ============================================================================
+
+/**
+ * Moves focus into a target when it opens, back to its anchor when it closes,
+ * and optionally keeps Tab focus inside it while open.
+ *
+ * Focus moves with the most recent input modality as origin, so keyboard users
+ * get focus-visible styles.
+ */
+export function anchorFocus(options: AnchorFocusOptions): void {
+  runInInjectionContext(options.injector ?? inject(Injector), () => {
+    const document = inject(DOCUMENT);
+    const focusMonitor = inject(FocusMonitor);
+    const focusTrapFactory = inject(FocusTrapFactory);
+    const interactivityChecker = inject(InteractivityChecker);
+    const inputModalityDetector = inject(InputModalityDetector);
+
+    const focusOrigin = (): FocusOrigin => inputModalityDetector.mostRecentModality ?? 'program';
+
+    afterRenderEffect(onCleanup => {
+      const target = options.target();
+      const anchor = options.anchor();
+      if (!target || !options.open()) {
+        return;
+      }
+
+      untracked(() => {
+        const focusTarget = resolveAutoFocus(target, options.autoFocus(), interactivityChecker);
+        if (focusTarget) {
+          focusMonitor.focusVia(focusTarget, focusOrigin(), { preventScroll: true });
+        }
+      });
+
+      onCleanup(() => {
+        // Only take focus back from the target, or when it was lost with the removed target
+        const activeElement = document.activeElement;
+        const hasFocus =
+          !activeElement || activeElement === document.body || target.contains(activeElement);
+        if (untracked(options.restoreFocus) && hasFocus) {
+          focusMonitor.focusVia(anchor, focusOrigin());
+        }
+      });
+    });
+
+    afterRenderEffect(onCleanup => {
+      const target = options.target();
+      options.host?.();
+      if (!target || !options.trapFocus() || !options.open()) {
+        return;
+      }
+
+      const focusTrap = focusTrapFactory.create(target);
+      onCleanup(() => focusTrap.destroy());
+    });
+  });
+}
+
+/**
+ * Resolves the element to focus when a target opens, or null to leave focus unchanged.
+ */
+function resolveAutoFocus(
+  target: HTMLElement,
+  autoFocus: AnchorAutoFocus,
+  checker: InteractivityChecker,
+): HTMLElement | null {
+  if (typeof autoFocus !== 'string') {
+    return autoFocus;
+  }
+
+  if (autoFocus === 'none') {
+    return null;
+  }
+
+  if (autoFocus !== 'first-tabbable') {
+    return target.querySelector<HTMLElement>(autoFocus);
+  }
+
+  const tabbable = Array.from(target.querySelectorAll<HTMLElement>('*')).find(
+    element => checker.isFocusable(element) && checker.isTabbable(element),
+  );
+  if (tabbable) {
+    return tabbable;
+  }
+
+  // Fall back to the target itself, such as a dialog without controls
+  if (!target.hasAttribute('tabindex')) {
+    target.tabIndex = -1;
+  }
+  return target;
+}
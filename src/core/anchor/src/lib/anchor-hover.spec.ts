@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { computeSafePolygon, isPointInPolygon } from './anchor-hover';
+
+const targetRect = { top: 100, left: 100, width: 200, height: 100 };
+
+describe('computeSafePolygon', () => {
+  it('should lead to the top edge of a target below the point', () => {
+    expect(computeSafePolygon({ x: 150, y: 80 }, targetRect)).toEqual([
+      { x: 150, y: 80 },
+      { x: 100, y: 100 },
+      { x: 300, y: 100 },
+    ]);
+  });
+
+  it('should lead to the bottom edge of a target above the point', () => {
+    expect(computeSafePolygon({ x: 150, y: 220 }, targetRect)).toEqual([
+      { x: 150, y: 220 },
+      { x: 100, y: 200 },
+      { x: 300, y: 200 },
+    ]);
+  });
+
+  it('should lead to the left edge of a target right of the point', () => {
+    expect(computeSafePolygon({ x: 80, y: 150 }, targetRect)).toEqual([
+      { x: 80, y: 150 },
+      { x: 100, y: 100 },
+      { x: 100, y: 200 },
+    ]);
+  });
+
+  it('should lead to the edge across the larger gap', () => {
+    expect(computeSafePolygon({ x: 320, y: 90 }, targetRect)).toEqual([
+      { x: 320, y: 90 },
+      { x: 300, y: 100 },
+      { x: 300, y: 200 },
+    ]);
+  });
+
+  it('should be empty when the point is within the target', () => {
+    expect(computeSafePolygon({ x: 150, y: 150 }, targetRect)).toEqual([]);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  const triangle = computeSafePolygon({ x: 150, y: 80 }, targetRect);
+
+  it('should include points within the polygon', () => {
+    expect(isPointInPolygon({ x: 150, y: 90 }, triangle)).toBe(true);
+    expect(isPointInPolygon({ x: 120, y: 99 }, triangle)).toBe(true);
+  });
+
+  it('should exclude points outside of the polygon', () => {
+    expect(isPointInPolygon({ x: 110, y: 85 }, triangle)).toBe(false);
+    expect(isPointInPolygon({ x: 150, y: 70 }, triangle)).toBe(false);
+  });
+
+  it('should exclude every point of an empty polygon', () => {
+    expect(isPointInPolygon({ x: 150, y: 150 }, [])).toBe(false);
+  });
+});
@@ -0,0 +1,299 @@
+import { listener } from '@angular-proto/core/utils';
+import { DOCUMENT } from '@angular/common';
+import type { Signal } from '@angular/core';
+import {
+  DestroyRef,
+  effect,
+  inject,
+  Injector,
+  runInInjectionContext,
+  untracked,
+} from '@angular/core';
+import type { AnchorRect } from './anchor-position';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A point in client coordinates.
+ */
+export interface AnchorPoint {
+  readonly x: number;
+  readonly y: number;
+}
+
+/**
+ * A rendered target that keeps a hover-triggered anchor open while the pointer is over it.
+ */
+export interface AnchorHoverTarget {
+  /** The rendered target element, the safe triangle leads to. */
+  readonly element: HTMLElement;
+  /** Whether a node counts as inside the target, including the targets opened from it. */
+  readonly contains: (node: Node) => boolean;
+}
+
+export interface AnchorHoverOptions {
+  /** Injector to create the listeners with, when not called in an injection context. */
+  readonly injector?: Injector;
+  /** The anchor element. */
+  readonly anchor: HTMLElement;
+  /** Whether hovering opens and closes the targets. */
+  readonly enabled: Signal<boolean>;
+  /** Whether the targets are open. */
+  readonly open: Signal<boolean>;
+  /** Delay in milliseconds before opening once the anchor is hovered. */
+  readonly openDelay: Signal<number>;
+  /** Delay in milliseconds before closing once neither the anchor nor a target is hovered. */
+  readonly closeDelay: Signal<number>;
+  /** The rendered targets. */
+  readonly targets: Signal<readonly AnchorHoverTarget[]>;
+  /** Opens or closes the targets. */
+  readonly setOpen: (open: boolean) => void;
+  /**
+   * Milliseconds the targets stay open once the pointer stops moving toward them
+   * within the safe triangle.
+   * @default 500
+   */
+  readonly graceTimeout?: number;
+}
+
+// ============================================================================
+// Safe Triangle
+// ============================================================================
+
+/**
+ * Computes the triangle between the point the pointer left the anchor at and the
+ * facing edge of a target. While the pointer moves within it, it travels toward
+ * the target, so the target is kept open.
+ *
+ * Returns an empty polygon when the point is within the target.
+ */
+export function computeSafePolygon(point: AnchorPoint, rect: AnchorRect): AnchorPoint[] {
+  const right = rect.left + rect.width;
+  const bottom = rect.top + rect.height;
+  const dx = Math.max(rect.left - point.x, point.x - right, 0);
+  const dy = Math.max(rect.top - point.y, point.y - bottom, 0);
+
+  if (dx === 0 && dy === 0) {
+    return [];
+  }
+
+  // Lead to the edge across the larger gap, the one the pointer crosses first
+  if (dy >= dx) {
+    const edge = point.y < rect.top ? rect.top : bottom;
+    return [point, { x: rect.left, y: edge }, { x: right, y: edge }];
+  }
+
+  const edge = point.x < rect.left ? rect.left : right;
+  return [point, { x: edge, y: rect.top }, { x: edge, y: bottom }];
+}
+
+/**
+ * The distance from a point to the nearest point of a rectangle, 0 within it.
+ */
+function getDistanceToRect(point: AnchorPoint, rect: AnchorRect): number {
+  const dx = Math.max(rect.left - point.x, point.x - (rect.left + rect.width), 0);
+  const dy = Math.max(rect.top - point.y, point.y - (rect.top + rect.height), 0);
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Whether a point is within a polygon, using ray casting.
+ */
+export function isPointInPolygon(point: AnchorPoint, polygon: readonly AnchorPoint[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y) {
+      const x = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+      if (point.x < x) {
+        inside = !inside;
+      }
+    }
+  }
+
+  return inside;
+}
+
+// ============================================================================
+// Hover Intent
+// ============================================================================
+
+/**
+ * Opens the targets of an anchor after `openDelay` when the anchor is hovered, and
+ * closes them after `closeDelay` once neither the anchor nor a target is hovered.
+ *
+ * After leaving the anchor, the pointer may cross the gap to a target: the targets
+ * stay open while it moves within the safe triangle between the point it left the
+ * anchor at and the facing edge of a target, until it stops getting closer to a
+ * target for `graceTimeout`. The grace period starts when the pointer leaves the
+ * anchor, so the targets close even when no move follows. Touch pointers are ignored.
+ */
+export function anchorHover(options: AnchorHoverOptions): void {
+  runInInjectionContext(options.injector ?? inject(Injector), () => {
+    const document = inject(DOCUMENT);
+    const injector = inject(Injector);
+
+    let openTimeout: ReturnType<typeof setTimeout> | undefined;
+    let closeTimeout: ReturnType<typeof setTimeout> | undefined;
+    let exitPoint: AnchorPoint | null = null;
+    let targetDistance = Infinity;
+    let removeMoveListener: (() => void) | null = null;
+
+    const clearOpen = () => {
+      clearTimeout(openTimeout);
+      openTimeout = undefined;
+    };
+
+    const clearClose = () => {
+      clearTimeout(closeTimeout);
+      closeTimeout = undefined;
+    };
+
+    const stopTracking = () => {
+      removeMoveListener?.();
+      removeMoveListener = null;
+      exitPoint = null;
+      targetDistance = Infinity;
+      clearClose();
+    };
+
+    const close = () => {
+      stopTracking();
+      options.setOpen(false);
+    };
+
+    const scheduleClose = () => {
+      closeTimeout ??= setTimeout(close, options.closeDelay());
+    };
+
+    const restartGrace = () => {
+      clearClose();
+      closeTimeout = setTimeout(close, options.graceTimeout ?? 500);
+    };
+
+    const isInTarget = (node: Node) => options.targets().some(target => target.contains(node));
+
+    const isInSafeTriangle = (point: AnchorPoint, from: AnchorPoint) =>
+      options
+        .targets()
+        .some(target =>
+          isPointInPolygon(point, computeSafePolygon(from, target.element.getBoundingClientRect())),
+        );
+
+    const getTargetDistance = (point: AnchorPoint) =>
+      Math.min(
+        ...options
+          .targets()
+          .map(target => getDistanceToRect(point, target.element.getBoundingClientRect())),
+      );
+
+    const onPointerMove = (event: PointerEvent) => {
+      const node = event.target as Node;
+      if (options.anchor.contains(node)) {
+        return;
+      }
+
+      if (isInTarget(node)) {
+        // Reached a target, the pointer no longer travels from the anchor
+        exitPoint = null;
+        targetDistance = Infinity;
+        clearClose();
+        return;
+      }
+
+      const point = { x: event.clientX, y: event.clientY };
+      if (exitPoint && isInSafeTriangle(point, exitPoint)) {
+        // Only moving toward a target extends the grace period, so resting
+        // within the triangle does not keep the targets open indefinitely
+        const distance = getTargetDistance(point);
+        if (distance < targetDistance) {
+          restartGrace();
+        }
+        targetDistance = Math.min(distance, targetDistance);
+        return;
+      }
+
+      // Left the triangle, so the grace period gives way to the close delay
+      if (exitPoint) {
+        exitPoint = null;
+        targetDistance = Infinity;
+        clearClose();
+      }
+      scheduleClose();
+    };
+
+    listener(
+      options.anchor,
+      'pointerenter',
+      event => {
+        if (!options.enabled() || event.pointerType === 'touch') {
+          return;
+        }
+
+        stopTracking();
+        if (!options.open() && openTimeout === undefined) {
+          openTimeout = setTimeout(() => {
+            openTimeout = undefined;
+            options.setOpen(true);
+          }, options.openDelay());
+        }
+      },
+      { injector },
+    );
+
+    listener(
+      options.anchor,
+      'pointerleave',
+      event => {
+        if (!options.enabled() || event.pointerType === 'touch') {
+          return;
+        }
+
+        clearOpen();
+        if (!options.open()) {
+          return;
+        }
+
+        removeMoveListener ??= listener(document, 'pointermove', onPointerMove, { injector });
+
+        // Left the document, so no pointer move follows
+        const relatedTarget = event.relatedTarget as Node | null;
+        if (!relatedTarget) {
+          scheduleClose();
+          return;
+        }
+
+        // Moved straight onto a target
+        if (isInTarget(relatedTarget)) {
+          clearClose();
+          return;
+        }
+
+        // Crossing the gap, so the targets close once the grace period ends
+        // unless the pointer keeps moving toward them
+        exitPoint = { x: event.clientX, y: event.clientY };
+        restartGrace();
+      },
+      { injector },
+    );
+
+    // Stop once closed from elsewhere, or when hovering no longer controls the targets
+    effect(() => {
+      if (!options.open() || !options.enabled()) {
+        untracked(() => {
+          clearOpen();
+          stopTracking();
+        });
+      }
+    });
+
+    inject(DestroyRef).onDestroy(() => {
+      clearOpen();
+      stopTracking();
+    });
+  });
+}
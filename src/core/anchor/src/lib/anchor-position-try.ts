@@ -0,0 +1,89 @@
+import { DOCUMENT } from '@angular/common';
+import { CSP_NONCE, DestroyRef, inject, Injectable } from '@angular/core';
+import type { AnchorOffset, AnchorPlacement } from './anchor';
+
+// ============================================================================
+// Position Try Rules
+// ============================================================================
+
+/**
+ * Computes the margin that offsets a target from its anchor for a placement:
+ * the main offset on the side facing the anchor, the cross offset along it.
+ */
+export function computePositionMargin(placement: AnchorPlacement, offset: AnchorOffset): string {
+  const mainPx = `${offset.main}px`;
+  const crossPx = `${offset.cross}px`;
+
+  if (placement.startsWith('top')) {
+    return `0 0 ${mainPx} ${crossPx}`;
+  } else if (placement.startsWith('bottom')) {
+    return `${mainPx} 0 0 ${crossPx}`;
+  } else if (placement.startsWith('left')) {
+    return `${crossPx} ${mainPx} 0 0`;
+  } else if (placement.startsWith('right')) {
+    return `${crossPx} 0 0 ${mainPx}`;
+  }
+
+  return '0';
+}
+
+/**
+ * Gets the name of the `@position-try` rule for a placement and offset.
+ * Equal fallbacks share a name, so each rule is only generated once.
+ */
+export function getPositionTryName(placement: AnchorPlacement, offset: AnchorOffset): string {
+  const name = `--proto-anchor-try-${placement}`;
+  if (offset.main === 0 && offset.cross === 0) {
+    return name;
+  }
+
+  // Dashed idents cannot contain `.`, and a `-` would be ambiguous with the separator
+  const format = (value: number) => String(value).replace('-', 'n').replace('.', '_');
+  return `${name}-${format(offset.main)}-${format(offset.cross)}`;
+}
+
+/**
+ * Shared stylesheet holding the `@position-try` rules of fallback placements.
+ * The stylesheet is added to the document head once the first rule is registered,
+ * and removed when the application is destroyed.
+ */
+@Injectable({ providedIn: 'root' })
+export class ProtoAnchorPositionTryRegistry {
+  private readonly document = inject(DOCUMENT);
+  private readonly nonce = inject(CSP_NONCE, { optional: true });
+  private readonly names = new Set<string>();
+  private styleElement: HTMLStyleElement | null = null;
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.styleElement?.remove());
+  }
+
+  /**
+   * Adds a `@position-try` rule with the given declarations, unless a rule with that
+   * name was added before. Returns the name to list in `position-try-fallbacks`.
+   */
+  register(name: string, declarations: Readonly<Record<string, string>>): string {
+    if (this.names.has(name)) {
+      return name;
+    }
+
+    const body = Object.entries(declarations)
+      .map(([property, value]) => `${property}: ${value};`)
+      .join(' ');
+
+    this.names.add(name);
+    this.styleElement ??= this.createStyleElement();
+    this.styleElement.textContent += `@position-try ${name} { ${body} }\n`;
+    return name;
+  }
+
+  private createStyleElement(): HTMLStyleElement {
+    const styleElement = this.document.createElement('style');
+    styleElement.setAttribute('data-proto-anchor-position-try', '');
+    if (this.nonce) {
+      styleElement.setAttribute('nonce', this.nonce);
+    }
+    this.document.head.appendChild(styleElement);
+    return styleElement;
+  }
+}
@@ -0,0 +1,271 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeAnchorPosition,
+  computeArrowPosition,
+  computeAvailableSize,
+  computePlacementCoords,
+  detectPlacement,
+  resolveFallbackPlacement,
+  resolveVirtualReference,
+  shiftPlacementCoords,
+} from './anchor-position';
+
+const anchorRect = { top: 100, left: 100, width: 100, height: 20 };
+const targetSize = { width: 50, height: 30 };
+const noOffset = { main: 0, cross: 0 };
+const viewport = { top: 0, left: 0, width: 1000, height: 800 };
+
+describe('computePlacementCoords', () => {
+  it('should center the target below the anchor', () => {
+    expect(computePlacementCoords(anchorRect, targetSize, 'bottom', noOffset)).toEqual({
+      top: 120,
+      left: 125,
+    });
+  });
+
+  it('should apply the main and cross offsets', () => {
+    expect(computePlacementCoords(anchorRect, targetSize, 'top', { main: 8, cross: 4 })).toEqual({
+      top: 62,
+      left: 129,
+    });
+  });
+
+  it('should place aligned placements in the corner cell like position-area', () => {
+    expect(computePlacementCoords(anchorRect, targetSize, 'bottom-start', noOffset)).toEqual({
+      top: 120,
+      left: 50,
+    });
+    expect(computePlacementCoords(anchorRect, targetSize, 'right-end', noOffset)).toEqual({
+      top: 120,
+      left: 200,
+    });
+  });
+});
+
+describe('computeAnchorPosition', () => {
+  it('should keep the preferred placement when it fits', () => {
+    const position = computeAnchorPosition(
+      anchorRect,
+      targetSize,
+      'top',
+      noOffset,
+      'flip-block',
+      viewport,
+    );
+    expect(position).toEqual({ top: 70, left: 125, placement: 'top', shift: 0 });
+  });
+
+  it('should flip across the block axis when the preferred placement overflows', () => {
+    const position = computeAnchorPosition(
+      { ...anchorRect, top: 10 },
+      targetSize,
+      'top',
+      noOffset,
+      'flip-block',
+      viewport,
+    );
+    expect(position).toEqual({ top: 30, left: 125, placement: 'bottom', shift: 0 });
+  });
+
+  it('should not flip when the flip behavior is none', () => {
+    const position = computeAnchorPosition(
+      { ...anchorRect, top: 10 },
+      targetSize,
+      'top',
+      noOffset,
+      'none',
+      viewport,
+    );
+    expect(position.placement).toBe('top');
+  });
+
+  it('should combine flip tactics into a single fallback', () => {
+    const position = computeAnchorPosition(
+      { ...anchorRect, top: 10, left: 960, width: 20 },
+      targetSize,
+      'top-end',
+      noOffset,
+      'flip-block flip-inline',
+      viewport,
+    );
+    expect(position.placement).toBe('bottom-start');
+  });
+
+  it('should try the fallback placements in order', () => {
+    const position = computeAnchorPosition(
+      { top: 10, left: 960, width: 20, height: 20 },
+      targetSize,
+      'right-start',
+      noOffset,
+      ['left-start', { placement: 'bottom', offset: { main: 8, cross: 0 } }],
+      viewport,
+    );
+    expect(position).toEqual({ top: 38, left: 945, placement: 'bottom', shift: 0 });
+  });
+
+  it('should keep the preferred placement when no fallback placement fits', () => {
+    const position = computeAnchorPosition(
+      { top: 10, left: 960, width: 20, height: 20 },
+      targetSize,
+      'right-start',
+      noOffset,
+      ['left-start'],
+      viewport,
+    );
+    expect(position.placement).toBe('right-start');
+  });
+
+  it('should shift the target back into the boundary with padding', () => {
+    const position = computeAnchorPosition(
+      { ...anchorRect, left: 0, width: 20 },
+      targetSize,
+      'bottom',
+      noOffset,
+      'flip-block',
+      viewport,
+      8,
+    );
+    expect(position).toEqual({ top: 120, left: 8, placement: 'bottom', shift: 23 });
+  });
+
+  it('should flip on the main axis and shift on the cross axis together', () => {
+    const position = computeAnchorPosition(
+      { top: 790, left: 990, width: 10, height: 10 },
+      targetSize,
+      'bottom',
+      noOffset,
+      'flip-block',
+      viewport,
+      4,
+    );
+    expect(position).toEqual({ top: 760, left: 946, placement: 'top', shift: -24 });
+  });
+});
+
+describe('resolveFallbackPlacement', () => {
+  it('should use the target offset for a placement', () => {
+    expect(resolveFallbackPlacement('left', { main: 4, cross: 2 })).toEqual({
+      placement: 'left',
+      offset: { main: 4, cross: 2 },
+    });
+  });
+
+  it('should prefer the offset of the fallback', () => {
+    expect(
+      resolveFallbackPlacement({ placement: 'left', offset: noOffset }, { main: 4, cross: 2 }),
+    ).toEqual({ placement: 'left', offset: noOffset });
+  });
+});
+
+describe('shiftPlacementCoords', () => {
+  it('should only shift along the cross axis', () => {
+    expect(shiftPlacementCoords({ top: -20, left: -20 }, targetSize, 'right', viewport, 0)).toEqual(
+      { top: 0, left: -20 },
+    );
+  });
+
+  it('should keep a target within a boundary element', () => {
+    const boundary = { top: 0, left: 200, width: 300, height: 800 };
+    expect(shiftPlacementCoords({ top: 0, left: 480 }, targetSize, 'top', boundary, 10)).toEqual({
+      top: 0,
+      left: 440,
+    });
+  });
+});
+
+describe('detectPlacement', () => {
+  it('should detect a placement flipped by the browser', () => {
+    const target = { top: 70, left: 125, width: 50, height: 30 };
+    expect(detectPlacement(anchorRect, target, 'bottom')).toBe('top');
+  });
+
+  it('should detect the alignment of corner placements', () => {
+    const target = { top: 120, left: 200, width: 50, height: 30 };
+    expect(detectPlacement(anchorRect, target, 'right-end')).toBe('right-end');
+    expect(detectPlacement(anchorRect, target, 'bottom-end')).toBe('bottom-end');
+  });
+
+  it('should return null when the elements have not been laid out', () => {
+    const empty = { top: 0, left: 0, width: 0, height: 0 };
+    expect(detectPlacement(anchorRect, empty, 'bottom')).toBeNull();
+  });
+});
+
+describe('computeArrowPosition', () => {
+  const noEdges = { top: 0, right: 0, bottom: 0, left: 0 };
+  const arrowSize = { width: 10, height: 5 };
+
+  it('should point at the anchor center from below', () => {
+    const target = { top: 120, left: 100, width: 200, height: 40 };
+    expect(computeArrowPosition(anchorRect, target, 'bottom', arrowSize, noEdges, noEdges)).toEqual(
+      { top: -5, left: 45 },
+    );
+  });
+
+  it('should sit on the bottom edge from above, outside the border', () => {
+    const target = { top: 60, left: 100, width: 200, height: 40 };
+    const border = { top: 1, right: 1, bottom: 1, left: 1 };
+    expect(computeArrowPosition(anchorRect, target, 'top', arrowSize, border, noEdges)).toEqual({
+      top: 39,
+      left: 44,
+    });
+  });
+
+  it('should clamp to the target padding', () => {
+    const target = { top: 120, left: 140, width: 200, height: 40 };
+    const padding = { top: 0, right: 0, bottom: 0, left: 12 };
+    expect(computeArrowPosition(anchorRect, target, 'bottom', arrowSize, noEdges, padding)).toEqual(
+      { top: -5, left: 12 },
+    );
+  });
+
+  it('should place a rotated arrow on the left edge for the right side', () => {
+    const target = { top: 90, left: 200, width: 80, height: 40 };
+    expect(computeArrowPosition(anchorRect, target, 'right', arrowSize, noEdges, noEdges)).toEqual({
+      top: 17.5,
+      left: -7.5,
+    });
+  });
+});
+
+describe('computeAvailableSize', () => {
+  it('should give the space below the anchor and the full width for bottom', () => {
+    expect(computeAvailableSize(anchorRect, 'bottom', { main: 8, cross: 0 }, viewport)).toEqual({
+      width: 1000,
+      height: 672,
+    });
+  });
+
+  it('should give the space before or after the anchor for aligned placements', () => {
+    expect(computeAvailableSize(anchorRect, 'top-start', noOffset, viewport)).toEqual({
+      width: 100,
+      height: 100,
+    });
+    expect(computeAvailableSize(anchorRect, 'right-end', noOffset, viewport)).toEqual({
+      width: 800,
+      height: 680,
+    });
+  });
+
+  it('should never be negative', () => {
+    const outside = { top: -50, left: -50, width: 10, height: 10 };
+    expect(computeAvailableSize(outside, 'top', noOffset, viewport).height).toBe(0);
+  });
+});
+
+describe('resolveVirtualReference', () => {
+  it('should treat client coordinates as a zero-size rect', () => {
+    expect(resolveVirtualReference({ x: 40, y: 60 })).toEqual({
+      top: 60,
+      left: 40,
+      width: 0,
+      height: 0,
+    });
+  });
+
+  it('should use rects as is and evaluate functions', () => {
+    const rect = new DOMRect(10, 20, 30, 40);
+    expect(resolveVirtualReference(rect)).toBe(rect);
+    expect(resolveVirtualReference(() => rect)).toBe(rect);
+  });
+});
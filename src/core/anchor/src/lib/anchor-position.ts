@@ -0,0 +1,452 @@
+import type {
+  AnchorFallbackPlacement,
+  AnchorFlipBehavior,
+  AnchorOffset,
+  AnchorPlacement,
+} from './anchor';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Strategy used to position anchor targets.
+ * - `css`: Native CSS anchor positioning only
+ * - `js`: Always compute the position with JavaScript
+ * - `auto`: CSS anchor positioning when supported, JavaScript otherwise
+ */
+export type AnchorPositionStrategy = 'css' | 'js' | 'auto';
+
+/**
+ * Minimal rectangle shape, compatible with `DOMRect`.
+ */
+export interface AnchorRect {
+  readonly top: number;
+  readonly left: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * Result of a JavaScript position computation, in boundary coordinates.
+ */
+export interface AnchorPosition {
+  readonly top: number;
+  readonly left: number;
+  /** The placement used after applying the flip behavior */
+  readonly placement: AnchorPlacement;
+  /** The distance the target was shifted along the cross axis to stay within the boundary */
+  readonly shift: number;
+}
+
+// ============================================================================
+// Feature Detection
+// ============================================================================
+
+/**
+ * Whether the browser supports native CSS anchor positioning.
+ */
+export function supportsCssAnchorPositioning(document: Document): boolean {
+  const css = document.defaultView?.CSS;
+  return !!css?.supports && css.supports('anchor-name', '--proto-anchor');
+}
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+/**
+ * Mirrors a placement across the block axis (top <-> bottom),
+ * like the `flip-block` try-tactic does for `position-area`.
+ */
+export function flipPlacementBlock(placement: AnchorPlacement): AnchorPlacement {
+  const [direction, alignment] = placement.split('-') as [string, string?];
+  if (direction === 'top' || direction === 'bottom') {
+    const flipped = direction === 'top' ? 'bottom' : 'top';
+    return (alignment ? `${flipped}-${alignment}` : flipped) as AnchorPlacement;
+  }
+  return flipAlignment(direction, alignment);
+}
+
+/**
+ * Mirrors a placement across the inline axis (left <-> right),
+ * like the `flip-inline` try-tactic does for `position-area`.
+ */
+export function flipPlacementInline(placement: AnchorPlacement): AnchorPlacement {
+  const [direction, alignment] = placement.split('-') as [string, string?];
+  if (direction === 'left' || direction === 'right') {
+    const flipped = direction === 'left' ? 'right' : 'left';
+    return (alignment ? `${flipped}-${alignment}` : flipped) as AnchorPlacement;
+  }
+  return flipAlignment(direction, alignment);
+}
+
+function flipAlignment(direction: string, alignment: string | undefined): AnchorPlacement {
+  if (!alignment) {
+    return direction as AnchorPlacement;
+  }
+  return `${direction}-${alignment === 'start' ? 'end' : 'start'}` as AnchorPlacement;
+}
+
+/**
+ * Gets the placements to try, in order, for a flip behavior.
+ * Like `position-try-fallbacks`, space-separated tactics are combined into one fallback.
+ */
+export function getFallbackPlacements(
+  placement: AnchorPlacement,
+  flipBehavior: AnchorFlipBehavior,
+): AnchorPlacement[] {
+  switch (flipBehavior) {
+    case 'flip-block':
+      return [placement, flipPlacementBlock(placement)];
+    case 'flip-inline':
+      return [placement, flipPlacementInline(placement)];
+    case 'flip-block flip-inline':
+      return [placement, flipPlacementInline(flipPlacementBlock(placement))];
+    default:
+      return [placement];
+  }
+}
+
+/**
+ * Resolves a fallback placement to its placement and offset, defaulting to the
+ * target's offset.
+ */
+export function resolveFallbackPlacement(
+  fallback: AnchorFallbackPlacement,
+  offset: AnchorOffset,
+): { placement: AnchorPlacement; offset: AnchorOffset } {
+  return typeof fallback === 'string'
+    ? { placement: fallback, offset }
+    : { placement: fallback.placement, offset: fallback.offset ?? offset };
+}
+
+/**
+ * Computes the top/left coordinates of a target for a single placement.
+ *
+ * Matches the `position-area` mapping used by the CSS strategy: centered placements
+ * are centered on the anchor, while `-start`/`-end` placements sit in the corner
+ * cell before/after the anchor. The cross offset shifts the target along the cross axis.
+ */
+export function computePlacementCoords(
+  anchorRect: AnchorRect,
+  targetSize: Pick<AnchorRect, 'width' | 'height'>,
+  placement: AnchorPlacement,
+  offset: AnchorOffset,
+): { top: number; left: number } {
+  const [direction, alignment] = placement.split('-') as [string, string?];
+  const anchorRight = anchorRect.left + anchorRect.width;
+  const anchorBottom = anchorRect.top + anchorRect.height;
+
+  if (direction === 'top' || direction === 'bottom') {
+    const top =
+      direction === 'top'
+        ? anchorRect.top - targetSize.height - offset.main
+        : anchorBottom + offset.main;
+
+    let left = anchorRect.left + (anchorRect.width - targetSize.width) / 2;
+    if (alignment === 'start') {
+      left = anchorRect.left - targetSize.width;
+    } else if (alignment === 'end') {
+      left = anchorRight;
+    }
+
+    return { top, left: left + offset.cross };
+  }
+
+  const left =
+    direction === 'left'
+      ? anchorRect.left - targetSize.width - offset.main
+      : anchorRight + offset.main;
+
+  let top = anchorRect.top + (anchorRect.height - targetSize.height) / 2;
+  if (alignment === 'start') {
+    top = anchorRect.top - targetSize.height;
+  } else if (alignment === 'end') {
+    top = anchorBottom;
+  }
+
+  return { top: top + offset.cross, left };
+}
+
+/**
+ * Shifts coordinates along the cross axis of a placement so the target stays within
+ * the boundary, minus the padding. The anchor side is never shifted.
+ */
+export function shiftPlacementCoords(
+  coords: { top: number; left: number },
+  targetSize: Pick<AnchorRect, 'width' | 'height'>,
+  placement: AnchorPlacement,
+  boundary: AnchorRect,
+  padding: number,
+): { top: number; left: number } {
+  const isVertical = placement.startsWith('top') || placement.startsWith('bottom');
+
+  if (isVertical) {
+    const max = boundary.left + boundary.width - padding - targetSize.width;
+    return { ...coords, left: clampToStart(coords.left, boundary.left + padding, max) };
+  }
+
+  const max = boundary.top + boundary.height - padding - targetSize.height;
+  return { ...coords, top: clampToStart(coords.top, boundary.top + padding, max) };
+}
+
+/**
+ * Clamps a value, preferring the start edge when the target is larger than the boundary.
+ */
+function clampToStart(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max));
+}
+
+/**
+ * Computes the position of a target relative to its anchor, applying the flip behavior
+ * or the ordered fallback placements and, when a shift padding is given, shifting the
+ * target back into the boundary.
+ *
+ * The first placement that fits within the boundary is used. When none fits,
+ * the preferred placement is kept, matching `position-try-fallbacks`.
+ */
+export function computeAnchorPosition(
+  anchorRect: AnchorRect,
+  targetSize: Pick<AnchorRect, 'width' | 'height'>,
+  placement: AnchorPlacement,
+  offset: AnchorOffset,
+  fallbacks: AnchorFlipBehavior | readonly AnchorFallbackPlacement[],
+  boundary: AnchorRect,
+  shiftPadding?: number,
+): AnchorPosition {
+  const position = (candidate: AnchorPlacement, candidateOffset = offset): AnchorPosition => {
+    const coords = computePlacementCoords(anchorRect, targetSize, candidate, candidateOffset);
+    const shifted =
+      shiftPadding === undefined
+        ? coords
+        : shiftPlacementCoords(coords, targetSize, candidate, boundary, shiftPadding);
+    const shift = shifted.top - coords.top + (shifted.left - coords.left);
+    return { ...shifted, placement: candidate, shift };
+  };
+
+  const candidates =
+    typeof fallbacks === 'string'
+      ? getFallbackPlacements(placement, fallbacks).map(candidate => ({
+          placement: candidate,
+          offset,
+        }))
+      : [
+          { placement, offset },
+          ...fallbacks.map(fallback => resolveFallbackPlacement(fallback, offset)),
+        ];
+
+  for (const candidate of candidates) {
+    const result = position(candidate.placement, candidate.offset);
+    if (
+      result.top >= boundary.top &&
+      result.left >= boundary.left &&
+      result.top + targetSize.height <= boundary.top + boundary.height &&
+      result.left + targetSize.width <= boundary.left + boundary.width
+    ) {
+      return result;
+    }
+  }
+
+  return position(placement);
+}
+
+// ============================================================================
+// Measurement
+// ============================================================================
+
+/**
+ * Detects the placement a target was rendered at by measuring it against its anchor,
+ * for example after the browser applied `position-try-fallbacks`.
+ *
+ * Returns null when either element has not been laid out, or when the target
+ * overlaps the anchor so that no side can be determined.
+ */
+export function detectPlacement(
+  anchorRect: AnchorRect,
+  targetRect: AnchorRect,
+  preferred: AnchorPlacement,
+): AnchorPlacement | null {
+  if (
+    (anchorRect.width === 0 && anchorRect.height === 0) ||
+    (targetRect.width === 0 && targetRect.height === 0)
+  ) {
+    return null;
+  }
+
+  // Tolerate sub-pixel rounding between the two rects
+  const tolerance = 1;
+  const above = targetRect.top + targetRect.height <= anchorRect.top + tolerance;
+  const below = targetRect.top >= anchorRect.top + anchorRect.height - tolerance;
+  const before = targetRect.left + targetRect.width <= anchorRect.left + tolerance;
+  const after = targetRect.left >= anchorRect.left + anchorRect.width - tolerance;
+
+  const vertical = above ? 'top' : below ? 'bottom' : null;
+  const horizontal = before ? 'left' : after ? 'right' : null;
+  const preferVertical = preferred.startsWith('top') || preferred.startsWith('bottom');
+
+  const direction = preferVertical ? (vertical ?? horizontal) : (horizontal ?? vertical);
+  if (!direction) {
+    return null;
+  }
+
+  const isVertical = direction === 'top' || direction === 'bottom';
+  const start = isVertical ? before : above;
+  const end = isVertical ? after : below;
+  const alignment = start ? '-start' : end ? '-end' : '';
+
+  return `${direction}${alignment}` as AnchorPlacement;
+}
+
+/**
+ * Calls `update` whenever the position of a target may have changed: on scroll
+ * (of any ancestor), on window resize, and when the observed elements resize.
+ * Returns a function that stops watching.
+ */
+export function watchAnchorPosition(
+  document: Document,
+  elements: readonly Element[],
+  update: () => void,
+): () => void {
+  const view = document.defaultView;
+  document.addEventListener('scroll', update, { capture: true, passive: true });
+  view?.addEventListener('resize', update);
+
+  const resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(update);
+  for (const element of elements) {
+    resizeObserver?.observe(element);
+  }
+
+  return () => {
+    document.removeEventListener('scroll', update, { capture: true });
+    view?.removeEventListener('resize', update);
+    resizeObserver?.disconnect();
+  };
+}
+
+// ============================================================================
+// Arrow
+// ============================================================================
+
+/**
+ * Widths of the four edges of a box, such as its borders or padding.
+ */
+export interface AnchorEdges {
+  readonly top: number;
+  readonly right: number;
+  readonly bottom: number;
+  readonly left: number;
+}
+
+/**
+ * Computes the top/left of an arrow so it points at the center of the anchor.
+ *
+ * The arrow sits just outside the target edge facing the anchor, and is clamped along
+ * that edge to the target's padding. Coordinates are relative to the target's padding box,
+ * the containing block of an absolutely positioned arrow. They describe the unrotated
+ * box, assuming the arrow is rotated around its center to face the anchor.
+ */
+export function computeArrowPosition(
+  anchorRect: AnchorRect,
+  targetRect: AnchorRect,
+  side: 'top' | 'bottom' | 'left' | 'right',
+  arrowSize: Pick<AnchorRect, 'width' | 'height'>,
+  border: AnchorEdges,
+  padding: AnchorEdges,
+): { top: number; left: number } {
+  const { width, height } = arrowSize;
+  let centerX: number;
+  let centerY: number;
+
+  if (side === 'top' || side === 'bottom') {
+    const innerWidth = targetRect.width - border.left - border.right;
+    centerX = clampToStart(
+      anchorRect.left + anchorRect.width / 2 - targetRect.left - border.left,
+      padding.left + width / 2,
+      innerWidth - padding.right - width / 2,
+    );
+    centerY =
+      side === 'bottom' ? -border.top - height / 2 : targetRect.height - border.top + height / 2;
+  } else {
+    // Rotated a quarter turn, the arrow spans its height horizontally
+    const innerHeight = targetRect.height - border.top - border.bottom;
+    centerY = clampToStart(
+      anchorRect.top + anchorRect.height / 2 - targetRect.top - border.top,
+      padding.top + width / 2,
+      innerHeight - padding.bottom - width / 2,
+    );
+    centerX =
+      side === 'right' ? -border.left - height / 2 : targetRect.width - border.left + height / 2;
+  }
+
+  return { top: centerY - height / 2, left: centerX - width / 2 };
+}
+
+// ============================================================================
+// Size
+// ============================================================================
+
+/**
+ * Computes the space available to a target on the side of the anchor it is placed at,
+ * for example to cap the height of a listbox to the remaining viewport space.
+ *
+ * Centered placements can use the whole boundary along the cross axis, while `-start`
+ * and `-end` placements only get the space before or after the anchor.
+ */
+export function computeAvailableSize(
+  anchorRect: AnchorRect,
+  placement: AnchorPlacement,
+  offset: AnchorOffset,
+  boundary: AnchorRect,
+): { width: number; height: number } {
+  const [direction, alignment] = placement.split('-') as [string, string?];
+  const before = { x: anchorRect.left - boundary.left, y: anchorRect.top - boundary.top };
+  const after = {
+    x: boundary.left + boundary.width - anchorRect.left - anchorRect.width,
+    y: boundary.top + boundary.height - anchorRect.top - anchorRect.height,
+  };
+  const cross = (length: number, start: number, end: number) =>
+    alignment === 'start' ? start : alignment === 'end' ? end : length;
+
+  let width: number;
+  let height: number;
+
+  if (direction === 'top' || direction === 'bottom') {
+    height = (direction === 'top' ? before.y : after.y) - offset.main;
+    width = cross(boundary.width, before.x, after.x);
+  } else {
+    width = (direction === 'left' ? before.x : after.x) - offset.main;
+    height = cross(boundary.height, before.y, after.y);
+  }
+
+  return { width: Math.max(0, width), height: Math.max(0, height) };
+}
+
+// ============================================================================
+// Virtual Reference
+// ============================================================================
+
+/**
+ * A virtual anchor without a DOM element of its own, such as a cursor position
+ * or a text selection.
+ * - A rect, such as the `DOMRect` of a `Range`
+ * - Client coordinates, treated as a zero-size rect
+ * - A function returning a rect, evaluated whenever the position is updated
+ */
+export type AnchorVirtualReference =
+  | AnchorRect
+  | { readonly x: number; readonly y: number }
+  | (() => AnchorRect);
+
+/**
+ * Resolves a virtual reference to a rect in client coordinates.
+ */
+export function resolveVirtualReference(reference: AnchorVirtualReference): AnchorRect {
+  if (typeof reference === 'function') {
+    return reference();
+  }
+  if ('width' in reference) {
+    return reference;
+  }
+  return { top: reference.y, left: reference.x, width: 0, height: 0 };
+}
@@ -1,13 +1,20 @@
+import type { ProtoDismissEvent } from '@angular-proto/core/dismissable-layer';
+import { InteractivityChecker } from '@angular/cdk/a11y';
 import { ChangeDetectionStrategy, Component, signal, viewChild } from '@angular/core';
 import { fireEvent, render, screen } from '@testing-library/angular';
-import { describe, expect, it } from 'vitest';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  type AnchorFallbackPlacement,
+  type AnchorMountMode,
+  type AnchorOpenChangeReason,
   type AnchorPlacement,
+  type AnchorRelationship,
   getOppositePlacement,
   getPositionArea,
   parsePlacement,
   ProtoAnchor,
   ProtoAnchorArrow,
+  ProtoAnchorOutlet,
   ProtoAnchorTarget,
   ProtoAnchorTargetElement,
 } from './anchor';
@@ -143,6 +150,7 @@ class TestAnchorAttributeDirective {
       data-testid="anchor-trigger"
       protoAnchor
       [protoAnchorPopupType]="popupType()"
+      [protoAnchorRelationship]="relationship()"
       (click)="anchor.toggle()"
     >
       Trigger
@@ -154,8 +162,58 @@ class TestAnchorAttributeDirective {
 class TestAnchorAccessibility {
   readonly anchor = viewChild.required<ProtoAnchor>('anchor');
   readonly popupType = signal<'menu' | 'listbox' | 'dialog' | 'true' | null>('menu');
+  readonly relationship = signal<AnchorRelationship>('controls');
 }
 
+@Component({
+  selector: 'test-anchor-element-layer',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget, ProtoAnchorTargetElement],
+  template: `
+    <div #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>
+      @if (anchor.isOpen()) {
+        <div data-testid="anchor-target" protoAnchorTargetElement>
+          <button
+            #menu="protoAnchor"
+            data-testid="menu-trigger"
+            protoAnchor
+            (click)="menu.toggle()"
+          >
+            Menu
+          </button>
+
+          <div *protoAnchorTarget="menu" data-testid="menu">Menu content</div>
+        </div>
+      }
+    </div>
+  `,
+})
+class TestAnchorElementLayer {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+}
+
+@Component({
+  selector: 'test-anchor-author-ids',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button
+      #anchor="protoAnchor"
+      aria-describedby="hint"
+      data-testid="anchor-trigger"
+      protoAnchor
+      protoAnchorRelationship="describedby"
+      (click)="anchor.toggle()"
+    >
+      Trigger
+    </button>
+    <span id="hint">Hint</span>
+
+    <div *protoAnchorTarget="anchor" data-testid="anchor-target" id="details">Details</div>
+  `,
+})
+class TestAnchorAuthorIds {}
+
 @Component({
   selector: 'test-anchor-with-placement-override',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -180,6 +238,382 @@ class TestAnchorWithPlacementOverride {
   readonly anchor = viewChild.required<ProtoAnchor>('anchor');
 }
 
+@Component({
+  selector: 'test-anchor-js-positioning',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button
+      #anchor="protoAnchor"
+      data-testid="anchor-trigger"
+      protoAnchor
+      [protoAnchorOffset]="{ main: 8, cross: 0 }"
+    >
+      Trigger
+    </button>
+
+    <div *protoAnchorTarget="anchor; positionStrategy: 'js'" data-testid="anchor-target">
+      Content
+    </div>
+  `,
+})
+class TestAnchorJsPositioning {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+}
+
+@Component({
+  selector: 'test-anchor-shift',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <div #boundary data-testid="boundary">
+      <button
+        #anchor="protoAnchor"
+        data-testid="anchor-trigger"
+        protoAnchor
+        protoAnchorShift
+        protoAnchorShiftPadding="8"
+        [protoAnchorBoundary]="boundary"
+        [protoAnchorOffset]="{ main: 8, cross: 0 }"
+      >
+        Trigger
+      </button>
+    </div>
+
+    <div *protoAnchorTarget="anchor" data-testid="anchor-target">Content</div>
+  `,
+})
+class TestAnchorShift {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+}
+
+@Component({
+  selector: 'test-anchor-size',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+
+    <div
+      *protoAnchorTarget="anchor; sizeVariables: true; matchAnchorWidth: 'min-width'"
+      data-testid="anchor-target"
+    >
+      Listbox
+    </div>
+  `,
+})
+class TestAnchorSize {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+}
+
+@Component({
+  selector: 'test-anchor-virtual',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <div
+      #anchor="protoAnchor"
+      data-testid="anchor-trigger"
+      protoAnchor
+      protoAnchorPlacement="bottom-end"
+      [protoAnchorVirtualReference]="point()"
+    >
+      Right-click area
+    </div>
+
+    <div *protoAnchorTarget="anchor" data-testid="anchor-target">Context menu</div>
+  `,
+})
+class TestAnchorVirtual {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly point = signal({ x: 40, y: 60 });
+}
+
+@Component({
+  selector: 'test-anchor-popover',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+
+    <div *protoAnchorTarget="anchor; popover: 'auto'; portal: portal()" data-testid="anchor-target">
+      Content
+    </div>
+  `,
+})
+class TestAnchorPopover {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly portal = signal<string | null>(null);
+}
+
+@Component({
+  selector: 'test-anchor-portal',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorArrow, ProtoAnchorOutlet, ProtoAnchorTarget],
+  template: `
+    <div data-testid="clipping-container" style="overflow: hidden">
+      <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+
+      <div *protoAnchorTarget="anchor; portal: portal()" data-testid="anchor-target">
+        <div data-testid="arrow" protoAnchorArrow></div>
+        {{ label() }}
+      </div>
+    </div>
+
+    @if (showOutlet()) {
+      <div data-testid="outlet" protoAnchorOutlet="overlays"></div>
+    }
+  `,
+})
+class TestAnchorPortal {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly portal = signal<string | null>('body');
+  readonly label = signal('Content');
+  readonly showOutlet = signal(false);
+}
+
+@Component({
+  selector: 'test-anchor-exit',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+
+    <ng-template
+      protoAnchorTargetExitTimeout="50"
+      [protoAnchorTarget]="anchor"
+      (protoAnchorTargetExitComplete)="exitCount.set(exitCount() + 1)"
+    >
+      <div data-testid="anchor-target" [style.transition-duration]="transitionDuration()">
+        Content
+      </div>
+    </ng-template>
+  `,
+})
+class TestAnchorExit {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly exitCount = signal(0);
+  readonly transitionDuration = signal<string | null>(null);
+}
+
+@Component({
+  selector: 'test-anchor-nested',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #popover="protoAnchor" data-testid="popover-trigger" protoAnchor>Popover</button>
+    <button data-testid="outside">Outside</button>
+
+    <ng-template
+      [protoAnchorTarget]="popover"
+      [protoAnchorTargetAutoHideOnClickOutside]="true"
+      [protoAnchorTargetPortal]="'body'"
+      (protoAnchorTargetPointerDownOutside)="onPointerDownOutside($event)"
+    >
+      <div data-testid="popover">
+        <button #menu="protoAnchor" data-testid="menu-trigger" protoAnchor (click)="menu.toggle()">
+          Menu
+        </button>
+
+        <div
+          *protoAnchorTarget="menu; portal: 'body'; autoHideOnClickOutside: true"
+          data-testid="menu"
+        >
+          Menu content
+        </div>
+      </div>
+    </ng-template>
+  `,
+})
+class TestAnchorNested {
+  readonly popover = viewChild.required<ProtoAnchor>('popover');
+  readonly keepOpen = signal(false);
+
+  onPointerDownOutside(event: ProtoDismissEvent<PointerEvent>): void {
+    if (this.keepOpen()) {
+      event.preventDefault();
+    }
+  }
+}
+
+@Component({
+  selector: 'test-anchor-focus',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+
+    <ng-template
+      [protoAnchorTarget]="anchor"
+      [protoAnchorTargetAutoFocus]="autoFocus()"
+      [protoAnchorTargetRestoreFocus]="restoreFocus()"
+      [protoAnchorTargetTrapFocus]="trapFocus()"
+    >
+      <div data-testid="anchor-target">
+        <span>Title</span>
+        <button data-testid="first">First</button>
+        <button class="last" data-testid="last">Last</button>
+      </div>
+    </ng-template>
+  `,
+})
+class TestAnchorFocus {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly autoFocus = signal('none');
+  readonly restoreFocus = signal(false);
+  readonly trapFocus = signal(false);
+}
+
+@Component({
+  selector: 'test-anchor-hover',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button
+      #anchor="protoAnchor"
+      data-testid="anchor-trigger"
+      protoAnchor
+      protoAnchorCloseDelay="150"
+      protoAnchorOpenDelay="300"
+      protoAnchorTrigger="hover"
+    >
+      Trigger
+    </button>
+    <div data-testid="outside">Outside</div>
+
+    <div *protoAnchorTarget="anchor" data-testid="anchor-target">Content</div>
+  `,
+})
+class TestAnchorHover {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+}
+
+@Component({
+  selector: 'test-anchor-auto-hide',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <div data-testid="scroll-container" style="overflow: auto">
+      <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+    </div>
+    <div data-testid="unrelated" style="overflow: auto">Unrelated</div>
+
+    <ng-template
+      [protoAnchorTarget]="anchor"
+      [protoAnchorTargetAutoHideOnAnchorHidden]="autoHideOnAnchorHidden()"
+      [protoAnchorTargetAutoHideOnBlur]="autoHideOnBlur()"
+      [protoAnchorTargetAutoHideOnResize]="autoHideOnResize()"
+      [protoAnchorTargetAutoHideOnScroll]="autoHideOnScroll()"
+    >
+      <div data-testid="anchor-target">Content</div>
+    </ng-template>
+  `,
+})
+class TestAnchorAutoHide {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly autoHideOnScroll = signal(false);
+  readonly autoHideOnAnchorHidden = signal(false);
+  readonly autoHideOnBlur = signal(false);
+  readonly autoHideOnResize = signal(false);
+}
+
+@Component({
+  selector: 'test-anchor-fallbacks',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+
+    <ng-template
+      protoAnchorTargetPlacement="right-start"
+      [protoAnchorTarget]="anchor"
+      [protoAnchorTargetFallbackPlacements]="fallbackPlacements()"
+      [protoAnchorTargetOffset]="{ main: 4, cross: 0 }"
+    >
+      <div data-testid="anchor-target">Content</div>
+    </ng-template>
+  `,
+})
+class TestAnchorFallbacks {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly fallbackPlacements = signal<AnchorFallbackPlacement[]>([
+    'left-start',
+    { placement: 'bottom', offset: { main: 8, cross: 0 } },
+  ]);
+}
+
+@Component({
+  selector: 'test-anchor-mount',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor>Trigger</button>
+
+    <ng-template
+      [protoAnchorTarget]="anchor"
+      [protoAnchorTargetMount]="mount()"
+      (protoAnchorTargetExitComplete)="exitCount.set(exitCount() + 1)"
+    >
+      <div data-testid="anchor-target">
+        <input data-testid="field" />
+        <span data-testid="label">{{ label() }}</span>
+      </div>
+    </ng-template>
+  `,
+})
+class TestAnchorMount {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly mount = signal<AnchorMountMode>('unmount');
+  readonly label = signal('initial');
+  readonly exitCount = signal(0);
+}
+
+@Component({
+  selector: 'test-anchor-two-way',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button
+      #anchor="protoAnchor"
+      data-testid="anchor-trigger"
+      protoAnchor
+      [(protoAnchorOpen)]="open"
+      (protoAnchorOpenChange)="changes.push([$event, anchor.openChangeReason()])"
+    >
+      Trigger
+    </button>
+    <button data-testid="outside">Outside</button>
+
+    <div
+      *protoAnchorTarget="anchor; autoHideOnClickOutside: true; autoHideOnBlur: true"
+      data-testid="anchor-target"
+    >
+      Content
+    </div>
+  `,
+})
+class TestAnchorTwoWay {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+  readonly open = signal(false);
+  readonly changes: [boolean, AnchorOpenChangeReason | null][] = [];
+}
+
+@Component({
+  selector: 'test-anchor-open-attribute',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoAnchor, ProtoAnchorTarget],
+  template: `
+    <button #anchor="protoAnchor" data-testid="anchor-trigger" protoAnchor protoAnchorOpen>
+      Trigger
+    </button>
+
+    <div *protoAnchorTarget="anchor" data-testid="anchor-target">Content</div>
+  `,
+})
+class TestAnchorOpenAttribute {
+  readonly anchor = viewChild.required<ProtoAnchor>('anchor');
+}
+
 // ============================================================================
 // ProtoAnchor Tests
 // ============================================================================
@@ -229,275 +663,1396 @@ describe('ProtoAnchor', () => {
     });
   });
 
-  describe('open state management', () => {
-    it('should support programmatic open/close', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
+  describe('open state management', () => {
+    it('should support programmatic open/close', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      expect(anchor().isOpen()).toBe(false);
+
+      anchor().open();
+      fixture.detectChanges();
+      expect(anchor().isOpen()).toBe(true);
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+      anchor().close();
+      fixture.detectChanges();
+      expect(anchor().isOpen()).toBe(false);
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+    });
+
+    it('should support programmatic setOpen', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().setOpen(true);
+      fixture.detectChanges();
+      expect(anchor().isOpen()).toBe(true);
+
+      anchor().setOpen(false);
+      fixture.detectChanges();
+      expect(anchor().isOpen()).toBe(false);
+    });
+
+    it('should sync with input binding', async () => {
+      const { fixture } = await render(TestAnchorWithPlacement);
+      const { anchor, isOpen } = fixture.componentInstance;
+
+      expect(anchor().isOpen()).toBe(false);
+
+      isOpen.set(true);
+      fixture.detectChanges();
+      expect(anchor().isOpen()).toBe(true);
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+    });
+
+    it('should support two-way binding', async () => {
+      const { fixture } = await render(TestAnchorTwoWay);
+      const component = fixture.componentInstance;
+
+      component.open.set(true);
+      fixture.detectChanges();
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+      fixture.detectChanges();
+
+      expect(component.open()).toBe(false);
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+    });
+
+    it('should only emit changes made by the anchor, with their reason', async () => {
+      const { fixture } = await render(TestAnchorTwoWay);
+      const component = fixture.componentInstance;
+
+      component.open.set(true);
+      fixture.detectChanges();
+      expect(component.changes).toEqual([]);
+
+      fireEvent.pointerDown(screen.getByTestId('outside'));
+      fixture.detectChanges();
+
+      component.anchor().open();
+      fixture.detectChanges();
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+      fixture.detectChanges();
+
+      component.anchor().toggle('trigger');
+      fixture.detectChanges();
+
+      fireEvent.blur(window);
+      fixture.detectChanges();
+
+      expect(component.changes).toEqual([
+        [false, 'outside'],
+        [true, 'programmatic'],
+        [false, 'escape'],
+        [true, 'trigger'],
+        [false, 'auto-hide'],
+      ]);
+    });
+
+    it('should coerce a bare protoAnchorOpen attribute', async () => {
+      const { fixture } = await render(TestAnchorOpenAttribute);
+
+      expect(fixture.componentInstance.anchor().isOpen()).toBe(true);
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+    });
+
+    it('should not emit when the open state does not change', async () => {
+      const { fixture } = await render(TestAnchorTwoWay);
+      const component = fixture.componentInstance;
+
+      component.anchor().close();
+      fixture.detectChanges();
+
+      expect(component.changes).toEqual([]);
+      expect(component.anchor().openChangeReason()).toBeNull();
+    });
+  });
+
+  describe('disabled state', () => {
+    it('should prevent opening when disabled', async () => {
+      const { fixture } = await render(TestAnchorDisabled);
+      const { anchor, isDisabled } = fixture.componentInstance;
+
+      isDisabled.set(true);
+      fixture.detectChanges();
+
+      const trigger = screen.getByTestId('anchor-trigger');
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+
+      expect(anchor().isOpen()).toBe(false);
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+    });
+
+    it('should allow closing when disabled', async () => {
+      const { fixture } = await render(TestAnchorDisabled);
+      const { anchor, isDisabled } = fixture.componentInstance;
+
+      // Open first
+      const trigger = screen.getByTestId('anchor-trigger');
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+      expect(anchor().isOpen()).toBe(true);
+
+      // Disable
+      isDisabled.set(true);
+      fixture.detectChanges();
+
+      // Should still be able to close
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+      expect(anchor().isOpen()).toBe(false);
+    });
+
+    it('should prevent open() when disabled', async () => {
+      const { fixture } = await render(TestAnchorDisabled);
+      const { anchor, isDisabled } = fixture.componentInstance;
+
+      isDisabled.set(true);
+      fixture.detectChanges();
+
+      anchor().open();
+      fixture.detectChanges();
+
+      expect(anchor().isOpen()).toBe(false);
+    });
+  });
+
+  describe('accessibility', () => {
+    it('should set aria-expanded based on open state', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+
+      const trigger = screen.getByTestId('anchor-trigger');
+      expect(trigger).toHaveAttribute('aria-expanded', 'false');
+
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+      expect(trigger).toHaveAttribute('aria-expanded', 'true');
+    });
+
+    it('should set aria-haspopup based on popup type', async () => {
+      const { fixture } = await render(TestAnchorAccessibility);
+      const { popupType } = fixture.componentInstance;
+
+      const trigger = screen.getByTestId('anchor-trigger');
+      expect(trigger).toHaveAttribute('aria-haspopup', 'menu');
+
+      popupType.set('dialog');
+      fixture.detectChanges();
+      expect(trigger).toHaveAttribute('aria-haspopup', 'dialog');
+
+      popupType.set(null);
+      fixture.detectChanges();
+      expect(trigger).not.toHaveAttribute('aria-haspopup');
+      expect(trigger).not.toHaveAttribute('aria-expanded');
+    });
+
+    it('should reference the rendered target with aria-controls', async () => {
+      const { fixture } = await render(TestAnchorAccessibility);
+
+      const trigger = screen.getByTestId('anchor-trigger');
+      expect(trigger).not.toHaveAttribute('aria-controls');
+
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target.id).toMatch(/^proto-anchor-target-/);
+      expect(trigger).toHaveAttribute('aria-controls', target.id);
+
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+      expect(trigger).not.toHaveAttribute('aria-controls');
+    });
+
+    it('should reference the rendered target with the configured relationship', async () => {
+      const { fixture } = await render(TestAnchorAccessibility);
+      const { relationship } = fixture.componentInstance;
+      const trigger = screen.getByTestId('anchor-trigger');
+
+      relationship.set('describedby');
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+
+      const { id } = screen.getByTestId('anchor-target');
+      expect(trigger).toHaveAttribute('aria-describedby', id);
+      expect(trigger).not.toHaveAttribute('aria-controls');
+
+      relationship.set('labelledby');
+      fixture.detectChanges();
+      expect(trigger).toHaveAttribute('aria-labelledby', id);
+      expect(trigger).not.toHaveAttribute('aria-describedby');
+
+      relationship.set('none');
+      fixture.detectChanges();
+      expect(trigger).not.toHaveAttribute('aria-labelledby');
+    });
+
+    it('should keep the ids the author set on the anchor and the target', async () => {
+      const { fixture } = await render(TestAnchorAuthorIds);
+
+      const trigger = screen.getByTestId('anchor-trigger');
+      expect(trigger).toHaveAttribute('aria-describedby', 'hint');
+      expect(trigger).not.toHaveAttribute('aria-controls');
+      expect(trigger).not.toHaveAttribute('aria-labelledby');
+
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+      expect(screen.getByTestId('anchor-target')).toHaveAttribute('id', 'details');
+      expect(trigger).toHaveAttribute('aria-describedby', 'hint details');
+
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+      expect(trigger).toHaveAttribute('aria-describedby', 'hint');
+    });
+
+    it('should set data-anchor-open attribute when open', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+
+      const trigger = screen.getByTestId('anchor-trigger');
+      expect(trigger).not.toHaveAttribute('data-anchor-open');
+
+      fireEvent.click(trigger);
+      fixture.detectChanges();
+      expect(trigger).toHaveAttribute('data-anchor-open', '');
+    });
+  });
+
+  describe('configuration', () => {
+    it('should use default placement from config', async () => {
+      const { fixture } = await render(TestAnchorWithPlacement);
+      const { anchor } = fixture.componentInstance;
+
+      expect(anchor().placement()).toBe('bottom');
+    });
+
+    it('should accept custom placement', async () => {
+      const { fixture } = await render(TestAnchorWithPlacement);
+      const { anchor, placement, isOpen } = fixture.componentInstance;
+
+      placement.set('top-start');
+      isOpen.set(true);
+      fixture.detectChanges();
+
+      expect(anchor().placement()).toBe('top-start');
+    });
+
+    it('should accept custom offset', async () => {
+      const { fixture } = await render(TestAnchorWithPlacement);
+      const { anchor, offset } = fixture.componentInstance;
+
+      expect(anchor().offset()).toEqual({ main: 8, cross: 0 });
+
+      offset.set({ main: 16, cross: 4 });
+      fixture.detectChanges();
+
+      expect(anchor().offset()).toEqual({ main: 16, cross: 4 });
+    });
+  });
+});
+
+// ============================================================================
+// ProtoAnchorTarget (Structural Directive) Tests
+// ============================================================================
+
+describe('ProtoAnchor hover trigger', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function pointer(
+    element: Element,
+    type: 'pointerenter' | 'pointerleave' | 'pointermove',
+    init: PointerEventInit = {},
+  ): void {
+    element.dispatchEvent(new PointerEvent(type, { bubbles: true, pointerType: 'mouse', ...init }));
+  }
+
+  function mockRect(
+    element: Element,
+    rect: { top: number; left: number; width: number; height: number },
+  ) {
+    vi.spyOn(element, 'getBoundingClientRect').mockReturnValue({
+      ...rect,
+      right: rect.left + rect.width,
+      bottom: rect.top + rect.height,
+    } as DOMRect);
+  }
+
+  async function renderOpen() {
+    const result = await render(TestAnchorHover);
+    const trigger = screen.getByTestId('anchor-trigger');
+    pointer(trigger, 'pointerenter');
+    vi.advanceTimersByTime(300);
+    result.fixture.detectChanges();
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+    // Anchor above the target, with a gap between them
+    mockRect(screen.getByTestId('anchor-target'), { top: 40, left: 0, width: 200, height: 100 });
+    pointer(trigger, 'pointerleave', { clientX: 50, clientY: 20, relatedTarget: document.body });
+    return result;
+  }
+
+  it('should open after the open delay when the anchor is hovered', async () => {
+    const { fixture } = await render(TestAnchorHover);
+    const trigger = screen.getByTestId('anchor-trigger');
+
+    pointer(trigger, 'pointerenter');
+    vi.advanceTimersByTime(299);
+    fixture.detectChanges();
+    expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+
+    vi.advanceTimersByTime(1);
+    fixture.detectChanges();
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+  });
+
+  it('should not open when the pointer leaves before the open delay', async () => {
+    const { fixture } = await render(TestAnchorHover);
+    const trigger = screen.getByTestId('anchor-trigger');
+
+    pointer(trigger, 'pointerenter');
+    vi.advanceTimersByTime(200);
+    pointer(trigger, 'pointerleave');
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+  });
+
+  it('should ignore touch pointers', async () => {
+    const { fixture } = await render(TestAnchorHover);
+
+    pointer(screen.getByTestId('anchor-trigger'), 'pointerenter', { pointerType: 'touch' });
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+  });
+
+  it('should close after the close delay when the pointer moves away', async () => {
+    const { fixture } = await renderOpen();
+
+    pointer(screen.getByTestId('outside'), 'pointermove', { clientX: 300, clientY: 10 });
+    vi.advanceTimersByTime(149);
+    fixture.detectChanges();
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+    vi.advanceTimersByTime(1);
+    fixture.detectChanges();
+    expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+  });
+
+  it('should stay open while the pointer travels within the safe triangle', async () => {
+    const { fixture } = await renderOpen();
+
+    pointer(document.body, 'pointermove', { clientX: 60, clientY: 30 });
+    vi.advanceTimersByTime(150);
+    fixture.detectChanges();
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+    pointer(screen.getByTestId('anchor-target'), 'pointermove', { clientX: 60, clientY: 50 });
+    vi.advanceTimersByTime(150);
+    fixture.detectChanges();
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+  });
+
+  it('should close once the pointer rests within the safe triangle', async () => {
+    const { fixture } = await renderOpen();
+
+    pointer(document.body, 'pointermove', { clientX: 60, clientY: 25 });
+    vi.advanceTimersByTime(300);
+    pointer(document.body, 'pointermove', { clientX: 60, clientY: 30 });
+    vi.advanceTimersByTime(499);
+    fixture.detectChanges();
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+    // Moving sideways does not get closer to the target
+    pointer(document.body, 'pointermove', { clientX: 62, clientY: 30 });
+    vi.advanceTimersByTime(1);
+    fixture.detectChanges();
+    expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+  });
+
+  it('should close after the grace timeout when the pointer stops after leaving', async () => {
+    const { fixture } = await renderOpen();
+
+    vi.advanceTimersByTime(499);
+    fixture.detectChanges();
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+    vi.advanceTimersByTime(1);
+    fixture.detectChanges();
+    expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+  });
+
+  it('should stay open when the pointer leaves straight onto the target', async () => {
+    const { fixture } = await render(TestAnchorHover);
+    const trigger = screen.getByTestId('anchor-trigger');
+    pointer(trigger, 'pointerenter');
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    const target = screen.getByTestId('anchor-target');
+    pointer(trigger, 'pointerleave', { clientX: 50, clientY: 40, relatedTarget: target });
+    vi.advanceTimersByTime(1000);
+    fixture.detectChanges();
+
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+  });
+
+  it('should close once the pointer leaves the target', async () => {
+    const { fixture } = await renderOpen();
+
+    pointer(screen.getByTestId('anchor-target'), 'pointermove', { clientX: 60, clientY: 50 });
+    pointer(document.body, 'pointermove', { clientX: 60, clientY: 30 });
+    vi.advanceTimersByTime(150);
+    fixture.detectChanges();
+
+    expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+  });
+
+  it('should stay open when the pointer returns to the anchor', async () => {
+    const { fixture } = await renderOpen();
+
+    pointer(screen.getByTestId('outside'), 'pointermove', { clientX: 300, clientY: 10 });
+    pointer(screen.getByTestId('anchor-trigger'), 'pointerenter');
+    vi.advanceTimersByTime(150);
+    fixture.detectChanges();
+
+    expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+  });
+});
+
+describe('ProtoAnchorTarget (structural directive)', () => {
+  describe('auto show/hide', () => {
+    it('should show when anchor opens', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+
+      anchor().open();
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+    });
+
+    it('should hide when anchor closes', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+      anchor().close();
+      fixture.detectChanges();
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('positioning styles', () => {
+    it('should apply fixed positioning by default', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveStyle({ position: 'fixed' });
+    });
+
+    it('should apply position-anchor style', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      const style = target.getAttribute('style');
+      expect(style).toContain('position-anchor');
+    });
+
+    it('should apply position-area based on placement', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      const style = target.getAttribute('style');
+      expect(style).toContain('position-area');
+      expect(style).toContain('bottom');
+    });
+
+    it('should apply z-index', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveStyle({ zIndex: '1000' });
+    });
+  });
+
+  describe('fallback placements', () => {
+    it('should list the generated @position-try rules in order', async () => {
+      const { fixture } = await render(TestAnchorFallbacks);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target.style.getPropertyValue('position-try-fallbacks')).toBe(
+        '--proto-anchor-try-left-start-4-0, --proto-anchor-try-bottom-8-0',
+      );
+    });
+
+    it('should add the @position-try rules to a shared stylesheet once', async () => {
+      const { fixture } = await render(TestAnchorFallbacks);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      anchor().close();
+      fixture.detectChanges();
+      anchor().open();
+      fixture.detectChanges();
+
+      const styles = document.head.querySelectorAll('style[data-proto-anchor-position-try]');
+      expect(styles.length).toBe(1);
+      expect(styles[0].textContent).toBe(
+        '@position-try --proto-anchor-try-left-start-4-0 { position-area: left top; margin: 0px 4px 0 0; }\n' +
+          '@position-try --proto-anchor-try-bottom-8-0 { position-area: bottom; margin: 8px 0 0 0px; }\n',
+      );
+    });
+
+    it('should fall back to the flip behavior without fallback placements', async () => {
+      const { fixture } = await render(TestAnchorFallbacks);
+      const { anchor, fallbackPlacements } = fixture.componentInstance;
+
+      fallbackPlacements.set([]);
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target.style.getPropertyValue('position-try-fallbacks')).toBe('flip-block');
+    });
+  });
+
+  describe('javascript positioning', () => {
+    it('should compute top/left from the anchor rect instead of CSS anchor positioning', async () => {
+      const { fixture } = await render(TestAnchorJsPositioning);
+      const { anchor } = fixture.componentInstance;
+      const trigger = screen.getByTestId('anchor-trigger');
+      vi.spyOn(trigger, 'getBoundingClientRect').mockReturnValue(new DOMRect(50, 100, 80, 20));
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveStyle({ position: 'fixed', top: '128px', left: '90px' });
+      expect(target.getAttribute('style')).not.toContain('position-area');
+    });
+
+    it('should recompute the position on resize', async () => {
+      const { fixture } = await render(TestAnchorJsPositioning);
+      const { anchor } = fixture.componentInstance;
+      const trigger = screen.getByTestId('anchor-trigger');
+      const rect = vi
+        .spyOn(trigger, 'getBoundingClientRect')
+        .mockReturnValue(new DOMRect(50, 100, 80, 20));
+
+      anchor().open();
+      fixture.detectChanges();
+
+      rect.mockReturnValue(new DOMRect(10, 40, 80, 20));
+      window.dispatchEvent(new Event('resize'));
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveStyle({ top: '68px', left: '50px' });
+    });
+  });
+
+  describe('shift collision mode', () => {
+    it('should shift into the boundary and report the flipped placement', async () => {
+      const { fixture } = await render(TestAnchorShift);
+      const { anchor } = fixture.componentInstance;
+      vi.spyOn(screen.getByTestId('boundary'), 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 300, 200),
+      );
+      vi.spyOn(screen.getByTestId('anchor-trigger'), 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(-20, 195, 20, 5),
+      );
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveStyle({ top: '187px', left: '8px' });
+      expect(target).toHaveAttribute('data-placement', 'top');
+      expect(target.getAttribute('style')).not.toContain('position-area');
+    });
+  });
+
+  describe('resolved placement', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should reflect the placement measured after the browser flipped', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
+      vi.spyOn(screen.getByTestId('anchor-trigger'), 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(100, 100, 100, 20),
+      );
+      vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(125, 70, 50, 30),
+      );
+
+      anchor().open();
+      fixture.detectChanges();
+      await fixture.whenStable();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveAttribute('data-placement', 'top');
+      expect(target).toHaveAttribute('data-side', 'top');
+      expect(target).toHaveAttribute('data-align', 'center');
+    });
+
+    it('should fall back to the requested placement when not measurable', async () => {
+      const { fixture } = await render(TestAnchorWithPlacementOverride);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveAttribute('data-side', 'top');
+      expect(target).toHaveAttribute('data-align', 'center');
+    });
+  });
+
+  describe('size matching', () => {
+    it('should expose the anchor size and match its width', async () => {
+      const { fixture } = await render(TestAnchorSize);
+      const { anchor } = fixture.componentInstance;
+      vi.spyOn(screen.getByTestId('anchor-trigger'), 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(10, 20, 120, 32),
+      );
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target.style.getPropertyValue('--proto-anchor-width')).toBe('120px');
+      expect(target.style.getPropertyValue('--proto-anchor-height')).toBe('32px');
+      expect(target.style.getPropertyValue('--proto-available-height')).not.toBe('');
+      expect(target).toHaveStyle({ minWidth: '120px' });
+    });
+  });
+
+  describe('virtual anchor', () => {
+    it('should position against client coordinates', async () => {
+      const { fixture } = await render(TestAnchorVirtual);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveStyle({ top: '60px', left: '40px' });
+      expect(target.getAttribute('style')).not.toContain('position-anchor');
+    });
+
+    it('should follow changes of the virtual reference', async () => {
+      const { fixture } = await render(TestAnchorVirtual);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      fixture.componentInstance.point.set({ x: 200, y: 120 });
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveStyle({ top: '120px', left: '200px' });
+    });
+  });
+
+  describe('top layer', () => {
+    // jsdom does not implement the Popover API
+    const showPopover = vi.fn();
+    const hidePopover = vi.fn();
+
+    beforeAll(() => {
+      HTMLElement.prototype.showPopover = showPopover;
+      HTMLElement.prototype.hidePopover = hidePopover;
+    });
+
+    afterEach(() => {
+      showPopover.mockClear();
+    });
+
+    afterAll(() => {
+      delete (HTMLElement.prototype as Partial<HTMLElement>).showPopover;
+      delete (HTMLElement.prototype as Partial<HTMLElement>).hidePopover;
+    });
+
+    it('should show the target as a popover while open', async () => {
+      const { fixture } = await render(TestAnchorPopover);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveAttribute('popover', 'auto');
+      expect(target).toHaveStyle({ position: 'fixed', margin: '0px' });
+      expect(showPopover).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close the anchor when the popover is light dismissed', async () => {
+      const { fixture } = await render(TestAnchorPopover);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const toggle = Object.assign(new Event('toggle'), { newState: 'closed', oldState: 'open' });
+      screen.getByTestId('anchor-target').dispatchEvent(toggle);
+      fixture.detectChanges();
+
+      expect(anchor().isOpen()).toBe(false);
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+    });
+
+    it('should show the popover again when it is portaled while open', async () => {
+      const { fixture } = await render(TestAnchorPopover);
+      const { anchor, portal } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      portal.set('body');
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target.parentElement).toBe(document.body);
+      expect(showPopover).toHaveBeenCalledTimes(2);
+      expect(anchor().isOpen()).toBe(true);
+    });
+  });
+
+  describe('portal', () => {
+    it('should render the target into the body', async () => {
+      const { fixture } = await render(TestAnchorPortal);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target.parentElement).toBe(document.body);
+      expect(screen.getByTestId('clipping-container')).not.toContainElement(target);
+    });
+
+    it('should keep change detection and injection of the declaration site', async () => {
+      const { fixture } = await render(TestAnchorPortal);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      fixture.componentInstance.label.set('Updated');
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('anchor-target')).toHaveTextContent('Updated');
+      expect(screen.getByTestId('arrow')).toHaveAttribute('data-side', 'bottom');
+    });
+
+    it('should remove the target from the portal host when closed', async () => {
+      const { fixture } = await render(TestAnchorPortal);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      anchor().close();
+      fixture.detectChanges();
+
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+    });
+
+    it('should render into a named outlet once it exists', async () => {
+      const { fixture } = await render(TestAnchorPortal);
+      const { anchor } = fixture.componentInstance;
+
+      fixture.componentInstance.portal.set('overlays');
+      anchor().open();
+      fixture.detectChanges();
+
+      // Falls back to rendering in place
+      expect(screen.getByTestId('clipping-container')).toContainElement(
+        screen.getByTestId('anchor-target'),
+      );
+
+      fixture.componentInstance.showOutlet.set(true);
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('outlet')).toContainElement(screen.getByTestId('anchor-target'));
+    });
+
+    it('should move the target back in place when the portal is removed', async () => {
+      const { fixture } = await render(TestAnchorPortal);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      fixture.componentInstance.portal.set(null);
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('clipping-container')).toContainElement(
+        screen.getByTestId('anchor-target'),
+      );
+    });
+  });
+
+  describe('exit animations', () => {
+    // jsdom does not implement the Web Animations API
+    let finish: () => void = () => undefined;
+    const getAnimations = vi.fn(() => []);
+
+    beforeAll(() => {
+      HTMLElement.prototype.getAnimations = getAnimations;
+    });
+
+    afterEach(() => {
+      getAnimations.mockReset();
+      getAnimations.mockImplementation(() => []);
+    });
+
+    afterAll(() => {
+      delete (HTMLElement.prototype as Partial<HTMLElement>).getAnimations;
+    });
+
+    function mockExitAnimation(): void {
+      const finished = new Promise<void>(resolve => (finish = resolve));
+      getAnimations.mockImplementation(() => [{ finished }] as never);
+    }
+
+    it('should set data-state while open', async () => {
+      const { fixture } = await render(TestAnchorExit);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('anchor-target')).toHaveAttribute('data-state', 'open');
+    });
+
+    it('should remove the target immediately without exit animations', async () => {
+      const { fixture } = await render(TestAnchorExit);
+      const { anchor, exitCount } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      anchor().close();
+      fixture.detectChanges();
+
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+      expect(exitCount()).toBe(1);
+    });
+
+    it('should wait for exit animations before removing the target', async () => {
+      const { fixture } = await render(TestAnchorExit);
+      const { anchor, exitCount } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      mockExitAnimation();
+      anchor().close();
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('anchor-target')).toHaveAttribute('data-state', 'closed');
+      expect(exitCount()).toBe(0);
+
+      finish();
+      await fixture.whenStable();
+
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+      expect(exitCount()).toBe(1);
+    });
+
+    it('should remove the target after the timeout', async () => {
+      const { fixture } = await render(TestAnchorExit);
+      const { anchor, exitCount } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      mockExitAnimation();
+      anchor().close();
+      fixture.detectChanges();
+
+      await new Promise(resolve => setTimeout(resolve, 60));
+      await fixture.whenStable();
+
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+      expect(exitCount()).toBe(1);
+    });
+
+    it('should wait for transitionend without the Web Animations API', async () => {
+      const { fixture } = await render(TestAnchorExit);
+      const { anchor, exitCount } = fixture.componentInstance;
+
+      const prototypeGetAnimations = HTMLElement.prototype.getAnimations;
+      delete (HTMLElement.prototype as Partial<HTMLElement>).getAnimations;
+
+      try {
+        fixture.componentInstance.transitionDuration.set('100ms');
+        anchor().open();
+        fixture.detectChanges();
+        anchor().close();
+        fixture.detectChanges();
+
+        const target = screen.getByTestId('anchor-target');
+        expect(target).toHaveAttribute('data-state', 'closed');
+
+        target.dispatchEvent(new Event('transitionend'));
+        await fixture.whenStable();
+
+        expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+        expect(exitCount()).toBe(1);
+      } finally {
+        HTMLElement.prototype.getAnimations = prototypeGetAnimations;
+      }
+    });
+
+    it('should keep the target when reopened while exiting', async () => {
+      const { fixture } = await render(TestAnchorExit);
+      const { anchor, exitCount } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      const target = screen.getByTestId('anchor-target');
+
+      mockExitAnimation();
+      anchor().close();
+      fixture.detectChanges();
+      anchor().open();
+      fixture.detectChanges();
+
+      finish();
+      await fixture.whenStable();
+
+      expect(screen.getByTestId('anchor-target')).toBe(target);
+      expect(target).toHaveAttribute('data-state', 'open');
+      expect(exitCount()).toBe(0);
+    });
+  });
+
+  describe('mount modes', () => {
+    it('should destroy the view once closed by default', async () => {
+      const { fixture } = await render(TestAnchorMount);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      (screen.getByTestId('field') as HTMLInputElement).value = 'typed';
+
+      anchor().close();
+      fixture.detectChanges();
+      anchor().open();
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('field')).toHaveValue('');
+    });
+
+    it('should create the view up front and keep it hidden with keep-mounted', async () => {
+      const { fixture } = await render(TestAnchorMount);
+      fixture.componentInstance.mount.set('keep-mounted');
+      fixture.detectChanges();
+      const { anchor, exitCount } = fixture.componentInstance;
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target.style.display).toBe('none');
+      expect(target).toHaveAttribute('data-state', 'closed');
+      expect(anchor().isOpen()).toBe(false);
+
+      anchor().open();
+      fixture.detectChanges();
+      expect(screen.getByTestId('anchor-target')).toBe(target);
+      expect(target.style.display).toBe('');
+      expect(target).toHaveAttribute('data-state', 'open');
+      (screen.getByTestId('field') as HTMLInputElement).value = 'typed';
+
+      anchor().close();
+      fixture.detectChanges();
+      expect(target).toBeInTheDocument();
+      expect(target.style.display).toBe('none');
+      expect(exitCount()).toBe(1);
+
+      anchor().open();
+      fixture.detectChanges();
+      expect(screen.getByTestId('field')).toHaveValue('typed');
+    });
+
+    it('should keep checking the hidden view with keep-mounted', async () => {
+      const { fixture } = await render(TestAnchorMount);
+      fixture.componentInstance.mount.set('keep-mounted');
+      fixture.detectChanges();
+
+      fixture.componentInstance.label.set('updated');
+      fixture.detectChanges();
+
+      expect(screen.getByTestId('label')).toHaveTextContent('updated');
+    });
+
+    it('should create the view on first open with lazy', async () => {
+      const { fixture } = await render(TestAnchorMount);
+      fixture.componentInstance.mount.set('lazy');
+      fixture.detectChanges();
+      const { anchor } = fixture.componentInstance;
+
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+
+      anchor().open();
+      fixture.detectChanges();
+      const target = screen.getByTestId('anchor-target');
+      (screen.getByTestId('field') as HTMLInputElement).value = 'typed';
+
+      anchor().close();
+      fixture.detectChanges();
+      expect(target.style.display).toBe('none');
+
+      anchor().open();
+      fixture.detectChanges();
+      expect(screen.getByTestId('anchor-target')).toBe(target);
+      expect(screen.getByTestId('field')).toHaveValue('typed');
+    });
+
+    it('should detach the hidden view from change detection with lazy', async () => {
+      const { fixture } = await render(TestAnchorMount);
+      fixture.componentInstance.mount.set('lazy');
+      fixture.detectChanges();
+      const { anchor, label } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      anchor().close();
+      fixture.detectChanges();
 
-      expect(anchor().isOpen()).toBe(false);
+      label.set('updated');
+      fixture.detectChanges();
+      expect(screen.getByTestId('label')).toHaveTextContent('initial');
 
       anchor().open();
       fixture.detectChanges();
-      expect(anchor().isOpen()).toBe(true);
-      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+      expect(screen.getByTestId('label')).toHaveTextContent('updated');
+    });
 
-      anchor().close();
+    it('should destroy a hidden view when switching to unmount', async () => {
+      const { fixture } = await render(TestAnchorMount);
+      fixture.componentInstance.mount.set('keep-mounted');
       fixture.detectChanges();
-      expect(anchor().isOpen()).toBe(false);
+
+      fixture.componentInstance.mount.set('unmount');
+      fixture.detectChanges();
+
       expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+      expect(fixture.componentInstance.exitCount()).toBe(0);
     });
+  });
 
-    it('should support programmatic setOpen', async () => {
+  describe('data attributes', () => {
+    it('should set data-anchor-target attribute', async () => {
       const { fixture } = await render(TestAnchorBasic);
       const { anchor } = fixture.componentInstance;
 
-      anchor().setOpen(true);
+      anchor().open();
       fixture.detectChanges();
-      expect(anchor().isOpen()).toBe(true);
 
-      anchor().setOpen(false);
-      fixture.detectChanges();
-      expect(anchor().isOpen()).toBe(false);
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveAttribute('data-anchor-target', '');
     });
 
-    it('should sync with input binding', async () => {
-      const { fixture } = await render(TestAnchorWithPlacement);
-      const { anchor, isOpen } = fixture.componentInstance;
-
-      expect(anchor().isOpen()).toBe(false);
+    it('should set data-placement attribute', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
 
-      isOpen.set(true);
+      anchor().open();
       fixture.detectChanges();
-      expect(anchor().isOpen()).toBe(true);
-      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveAttribute('data-placement', 'bottom');
     });
   });
 
-  describe('disabled state', () => {
-    it('should prevent opening when disabled', async () => {
-      const { fixture } = await render(TestAnchorDisabled);
-      const { anchor, isDisabled } = fixture.componentInstance;
+  describe('auto hide', () => {
+    it('should close when pressing Escape', async () => {
+      const { fixture } = await render(TestAnchorBasic);
+      const { anchor } = fixture.componentInstance;
 
-      isDisabled.set(true);
+      anchor().open();
       fixture.detectChanges();
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
 
-      const trigger = screen.getByTestId('anchor-trigger');
-      fireEvent.click(trigger);
+      fireEvent.keyDown(document, { key: 'Escape' });
       fixture.detectChanges();
 
       expect(anchor().isOpen()).toBe(false);
       expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
     });
 
-    it('should allow closing when disabled', async () => {
-      const { fixture } = await render(TestAnchorDisabled);
-      const { anchor, isDisabled } = fixture.componentInstance;
+    async function renderOpen(policy: 'Scroll' | 'AnchorHidden' | 'Blur' | 'Resize') {
+      const result = await render(TestAnchorAutoHide);
+      const component = result.fixture.componentInstance;
+      component[`autoHideOn${policy}`].set(true);
+      component.anchor().open();
+      result.fixture.detectChanges();
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+      return result;
+    }
 
-      // Open first
-      const trigger = screen.getByTestId('anchor-trigger');
-      fireEvent.click(trigger);
-      fixture.detectChanges();
-      expect(anchor().isOpen()).toBe(true);
+    it('should close when an ancestor of the anchor scrolls', async () => {
+      const { fixture } = await renderOpen('Scroll');
 
-      // Disable
-      isDisabled.set(true);
+      fireEvent.scroll(screen.getByTestId('unrelated'));
       fixture.detectChanges();
+      expect(fixture.componentInstance.anchor().isOpen()).toBe(true);
 
-      // Should still be able to close
-      fireEvent.click(trigger);
+      fireEvent.scroll(screen.getByTestId('scroll-container'));
       fixture.detectChanges();
-      expect(anchor().isOpen()).toBe(false);
+      expect(fixture.componentInstance.anchor().isOpen()).toBe(false);
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
     });
 
-    it('should prevent open() when disabled', async () => {
-      const { fixture } = await render(TestAnchorDisabled);
-      const { anchor, isDisabled } = fixture.componentInstance;
-
-      isDisabled.set(true);
-      fixture.detectChanges();
+    it('should close when the window loses focus', async () => {
+      const { fixture } = await renderOpen('Blur');
 
-      anchor().open();
+      fireEvent.blur(window);
       fixture.detectChanges();
 
-      expect(anchor().isOpen()).toBe(false);
+      expect(fixture.componentInstance.anchor().isOpen()).toBe(false);
     });
-  });
-
-  describe('accessibility', () => {
-    it('should set aria-expanded based on open state', async () => {
-      const { fixture } = await render(TestAnchorBasic);
 
-      const trigger = screen.getByTestId('anchor-trigger');
-      expect(trigger).toHaveAttribute('aria-expanded', 'false');
+    it('should close when the window is resized', async () => {
+      const { fixture } = await renderOpen('Resize');
 
-      fireEvent.click(trigger);
+      fireEvent(window, new Event('resize'));
       fixture.detectChanges();
-      expect(trigger).toHaveAttribute('aria-expanded', 'true');
-    });
-
-    it('should set aria-haspopup based on popup type', async () => {
-      const { fixture } = await render(TestAnchorAccessibility);
-      const { popupType } = fixture.componentInstance;
 
-      const trigger = screen.getByTestId('anchor-trigger');
-      expect(trigger).toHaveAttribute('aria-haspopup', 'menu');
+      expect(fixture.componentInstance.anchor().isOpen()).toBe(false);
+    });
 
-      popupType.set('dialog');
+    it('should stay open without the policies', async () => {
+      const { fixture } = await render(TestAnchorAutoHide);
+      const { anchor } = fixture.componentInstance;
+      anchor().open();
       fixture.detectChanges();
-      expect(trigger).toHaveAttribute('aria-haspopup', 'dialog');
 
-      popupType.set(null);
+      fireEvent.scroll(screen.getByTestId('scroll-container'));
+      fireEvent.blur(window);
+      fireEvent(window, new Event('resize'));
       fixture.detectChanges();
-      expect(trigger).not.toHaveAttribute('aria-haspopup');
-    });
 
-    it('should set data-anchor-open attribute when open', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-
-      const trigger = screen.getByTestId('anchor-trigger');
-      expect(trigger).not.toHaveAttribute('data-anchor-open');
+      expect(anchor().isOpen()).toBe(true);
+    });
 
-      fireEvent.click(trigger);
-      fixture.detectChanges();
-      expect(trigger).toHaveAttribute('data-anchor-open', '');
+    describe('when the anchor is hidden', () => {
+      // jsdom does not implement IntersectionObserver
+      let callback: IntersectionObserverCallback = () => undefined;
+      const observe = vi.fn();
+
+      beforeAll(() => {
+        window.IntersectionObserver = class {
+          constructor(cb: IntersectionObserverCallback) {
+            callback = cb;
+          }
+          observe = observe;
+          disconnect = vi.fn();
+        } as unknown as typeof IntersectionObserver;
+      });
+
+      afterAll(() => {
+        Reflect.deleteProperty(window, 'IntersectionObserver');
+      });
+
+      function intersect(isIntersecting: boolean): void {
+        callback([{ isIntersecting } as IntersectionObserverEntry], {} as IntersectionObserver);
+      }
+
+      it('should close when the anchor is fully hidden', async () => {
+        const { fixture } = await renderOpen('AnchorHidden');
+
+        expect(observe).toHaveBeenCalledWith(screen.getByTestId('anchor-trigger'));
+
+        intersect(true);
+        fixture.detectChanges();
+        expect(fixture.componentInstance.anchor().isOpen()).toBe(true);
+
+        intersect(false);
+        fixture.detectChanges();
+        expect(fixture.componentInstance.anchor().isOpen()).toBe(false);
+      });
     });
   });
 
-  describe('configuration', () => {
-    it('should use default placement from config', async () => {
-      const { fixture } = await render(TestAnchorWithPlacement);
-      const { anchor } = fixture.componentInstance;
-
-      expect(anchor().placement()).toBe('bottom');
-    });
+  describe('nested layers', () => {
+    async function renderOpen() {
+      const result = await render(TestAnchorNested);
+      result.fixture.componentInstance.popover().open();
+      result.fixture.detectChanges();
+      fireEvent.click(screen.getByTestId('menu-trigger'));
+      result.fixture.detectChanges();
+      expect(screen.getByTestId('menu')).toBeInTheDocument();
+      return result;
+    }
 
-    it('should accept custom placement', async () => {
-      const { fixture } = await render(TestAnchorWithPlacement);
-      const { anchor, placement, isOpen } = fixture.componentInstance;
+    it('should close only the topmost target on Escape', async () => {
+      const { fixture } = await renderOpen();
 
-      placement.set('top-start');
-      isOpen.set(true);
+      fireEvent.keyDown(document, { key: 'Escape' });
       fixture.detectChanges();
 
-      expect(anchor().placement()).toBe('top-start');
+      expect(screen.queryByTestId('menu')).not.toBeInTheDocument();
+      expect(screen.getByTestId('popover')).toBeInTheDocument();
     });
 
-    it('should accept custom offset', async () => {
-      const { fixture } = await render(TestAnchorWithPlacement);
-      const { anchor, offset } = fixture.componentInstance;
-
-      expect(anchor().offset()).toEqual({ main: 8, cross: 0 });
+    it('should treat a nested target as inside its parent', async () => {
+      const { fixture } = await renderOpen();
 
-      offset.set({ main: 16, cross: 4 });
+      fireEvent.pointerDown(screen.getByTestId('menu'));
       fixture.detectChanges();
 
-      expect(anchor().offset()).toEqual({ main: 16, cross: 4 });
+      expect(screen.getByTestId('menu')).toBeInTheDocument();
+      expect(screen.getByTestId('popover')).toBeInTheDocument();
     });
-  });
-});
-
-// ============================================================================
-// ProtoAnchorTarget (Structural Directive) Tests
-// ============================================================================
-
-describe('ProtoAnchorTarget (structural directive)', () => {
-  describe('auto show/hide', () => {
-    it('should show when anchor opens', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
 
-      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+    it('should close the nested target on pointer down in its parent', async () => {
+      const { fixture } = await renderOpen();
 
-      anchor().open();
+      fireEvent.pointerDown(screen.getByTestId('popover'));
       fixture.detectChanges();
 
-      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+      expect(screen.queryByTestId('menu')).not.toBeInTheDocument();
+      expect(screen.getByTestId('popover')).toBeInTheDocument();
     });
 
-    it('should hide when anchor closes', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
+    it('should keep a target open when the outside event is cancelled', async () => {
+      const { fixture } = await renderOpen();
 
-      anchor().open();
+      fixture.componentInstance.keepOpen.set(true);
+      fireEvent.pointerDown(screen.getByTestId('outside'));
       fixture.detectChanges();
-      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
 
-      anchor().close();
-      fixture.detectChanges();
-      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('menu')).not.toBeInTheDocument();
+      expect(screen.getByTestId('popover')).toBeInTheDocument();
     });
   });
 
-  describe('positioning styles', () => {
-    it('should apply fixed positioning by default', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
-
-      anchor().open();
-      fixture.detectChanges();
+  describe('focus management', () => {
+    // jsdom does not lay out elements, so nothing counts as visible
+    beforeAll(() => {
+      vi.spyOn(InteractivityChecker.prototype, 'isVisible').mockReturnValue(true);
+    });
 
-      const target = screen.getByTestId('anchor-target');
-      expect(target).toHaveStyle({ position: 'fixed' });
+    afterAll(() => {
+      vi.restoreAllMocks();
     });
 
-    it('should apply position-anchor style', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
+    async function renderOpen(autoFocus = 'none') {
+      const result = await render(TestAnchorFocus);
+      const component = result.fixture.componentInstance;
+      component.autoFocus.set(autoFocus);
+      screen.getByTestId('anchor-trigger').focus();
+      component.anchor().open();
+      result.fixture.detectChanges();
+      return result;
+    }
 
-      anchor().open();
-      fixture.detectChanges();
+    it('should leave focus unchanged by default', async () => {
+      await renderOpen();
 
-      const target = screen.getByTestId('anchor-target');
-      const style = target.getAttribute('style');
-      expect(style).toContain('position-anchor');
+      expect(screen.getByTestId('anchor-trigger')).toHaveFocus();
     });
 
-    it('should apply position-area based on placement', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
+    it('should focus the first tabbable element', async () => {
+      await renderOpen('first-tabbable');
 
-      anchor().open();
-      fixture.detectChanges();
+      expect(screen.getByTestId('first')).toHaveFocus();
+    });
 
-      const target = screen.getByTestId('anchor-target');
-      const style = target.getAttribute('style');
-      expect(style).toContain('position-area');
-      expect(style).toContain('bottom');
+    it('should focus the first element matching a selector', async () => {
+      await renderOpen('.last');
+
+      expect(screen.getByTestId('last')).toHaveFocus();
     });
 
-    it('should apply z-index', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
+    it('should restore focus to the anchor on close', async () => {
+      const { fixture } = await render(TestAnchorFocus);
+      const component = fixture.componentInstance;
+      component.autoFocus.set('first-tabbable');
+      component.restoreFocus.set(true);
+      component.anchor().open();
+      fixture.detectChanges();
 
-      anchor().open();
+      expect(screen.getByTestId('first')).toHaveFocus();
+
+      component.anchor().close();
       fixture.detectChanges();
 
-      const target = screen.getByTestId('anchor-target');
-      expect(target).toHaveStyle({ zIndex: '1000' });
+      expect(screen.getByTestId('anchor-trigger')).toHaveFocus();
     });
-  });
 
-  describe('data attributes', () => {
-    it('should set data-anchor-target attribute', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
+    it('should not restore focus when it moved outside of the target', async () => {
+      const { fixture } = await render(TestAnchorFocus);
+      const component = fixture.componentInstance;
+      component.restoreFocus.set(true);
+      component.anchor().open();
+      fixture.detectChanges();
 
-      anchor().open();
+      const outside = document.createElement('button');
+      document.body.append(outside);
+      outside.focus();
+
+      component.anchor().close();
       fixture.detectChanges();
 
-      const target = screen.getByTestId('anchor-target');
-      expect(target).toHaveAttribute('data-anchor-target', '');
+      expect(outside).toHaveFocus();
+      outside.remove();
     });
 
-    it('should set data-placement attribute', async () => {
-      const { fixture } = await render(TestAnchorBasic);
-      const { anchor } = fixture.componentInstance;
-
-      anchor().open();
+    it('should trap focus inside the target while open', async () => {
+      const { fixture } = await render(TestAnchorFocus);
+      const component = fixture.componentInstance;
+      component.trapFocus.set(true);
+      component.anchor().open();
       fixture.detectChanges();
 
       const target = screen.getByTestId('anchor-target');
-      expect(target).toHaveAttribute('data-placement', 'bottom');
+      expect(target.previousElementSibling).toHaveClass('cdk-focus-trap-anchor');
+      expect(target.nextElementSibling).toHaveClass('cdk-focus-trap-anchor');
+
+      component.anchor().close();
+      fixture.detectChanges();
+
+      expect(document.querySelector('.cdk-focus-trap-anchor')).toBeNull();
     });
   });
 
@@ -554,6 +2109,18 @@ describe('ProtoAnchorTargetElement (attribute directive)', () => {
       const target = screen.getByTestId('anchor-target');
       expect(target).toHaveAttribute('data-placement', 'top');
     });
+
+    it('should reflect the resolved side and alignment', async () => {
+      const { fixture } = await render(TestAnchorAttributeDirective);
+      const { showTarget } = fixture.componentInstance;
+
+      showTarget.set(true);
+      fixture.detectChanges();
+
+      const target = screen.getByTestId('anchor-target');
+      expect(target).toHaveAttribute('data-side', 'top');
+      expect(target).toHaveAttribute('data-align', 'center');
+    });
   });
 
   describe('explicit anchor connection', () => {
@@ -571,6 +2138,29 @@ describe('ProtoAnchorTargetElement (attribute directive)', () => {
       expect(style).toContain(anchor().anchorName());
     });
   });
+
+  describe('dismissable layer', () => {
+    it('should close its anchor on Escape after the targets opened inside it', async () => {
+      const { fixture } = await render(TestAnchorElementLayer);
+      const { anchor } = fixture.componentInstance;
+
+      anchor().open();
+      fixture.detectChanges();
+      fireEvent.click(screen.getByTestId('menu-trigger'));
+      fixture.detectChanges();
+      expect(screen.getByTestId('menu')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+      fixture.detectChanges();
+      expect(screen.queryByTestId('menu')).not.toBeInTheDocument();
+      expect(screen.getByTestId('anchor-target')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+      fixture.detectChanges();
+      expect(screen.queryByTestId('anchor-target')).not.toBeInTheDocument();
+      expect(anchor().openChangeReason()).toBe('escape');
+    });
+  });
 });
 
 // ============================================================================
@@ -610,6 +2200,37 @@ describe('ProtoAnchorArrow', () => {
     const arrow = screen.getByTestId('anchor-arrow');
     expect(arrow).toHaveAttribute('data-anchor-arrow', '');
   });
+
+  it('should rotate to face the anchor and expose the side', async () => {
+    const { fixture } = await render(TestAnchorWithArrow);
+    const { anchor } = fixture.componentInstance;
+
+    anchor().open();
+    fixture.detectChanges();
+
+    const arrow = screen.getByTestId('anchor-arrow');
+    expect(arrow).toHaveAttribute('data-side', 'bottom');
+    expect(arrow).toHaveStyle({ position: 'absolute', transform: 'rotate(0deg)' });
+  });
+
+  it('should point at the center of the anchor', async () => {
+    const { fixture } = await render(TestAnchorWithArrow);
+    const { anchor } = fixture.componentInstance;
+    vi.spyOn(screen.getByTestId('anchor-trigger'), 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(100, 100, 100, 20),
+    );
+    const targetRect = vi
+      .spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+      .mockReturnValue(new DOMRect(120, 130, 200, 50));
+
+    anchor().open();
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    const arrow = screen.getByTestId('anchor-arrow');
+    expect(arrow).toHaveStyle({ top: '-6px', left: '24px' });
+    targetRect.mockRestore();
+  });
 });
 
 // ============================================================================
@@ -1,5 +1,10 @@
 import { createProto } from '@angular-proto/core';
-import { injectElementRef, uniqueId } from '@angular-proto/core/utils';
+import {
+  PROTO_DISMISSABLE_LAYER,
+  ProtoDismissableLayerStack,
+  type ProtoDismissEvent,
+} from '@angular-proto/core/dismissable-layer';
+import { injectElementRef, presence, uniqueId } from '@angular-proto/core/utils';
 import type { BooleanInput } from '@angular/cdk/coercion';
 import { DOCUMENT } from '@angular/common';
 import {
@@ -14,13 +19,36 @@ import {
   Injector,
   input,
   linkedSignal,
+  model,
   numberAttribute,
   output,
   signal,
   TemplateRef,
   untracked,
   ViewContainerRef,
+  WritableSignal,
 } from '@angular/core';
+import { type AnchorAutoFocus, anchorFocus } from './anchor-focus';
+import { anchorHover, type AnchorHoverTarget } from './anchor-hover';
+import {
+  type AnchorEdges,
+  type AnchorPositionStrategy,
+  type AnchorRect,
+  type AnchorVirtualReference,
+  computeAnchorPosition,
+  computeArrowPosition,
+  computeAvailableSize,
+  detectPlacement,
+  resolveFallbackPlacement,
+  resolveVirtualReference,
+  supportsCssAnchorPositioning,
+  watchAnchorPosition,
+} from './anchor-position';
+import {
+  computePositionMargin,
+  getPositionTryName,
+  ProtoAnchorPositionTryRegistry,
+} from './anchor-position-try';
 
 // ============================================================================
 // Types & Constants
@@ -54,11 +82,90 @@ export type AnchorAlignment = 'start' | 'center' | 'end';
  */
 export type AnchorFlipBehavior = 'none' | 'flip-block' | 'flip-inline' | 'flip-block flip-inline';
 
+/**
+ * A placement to try when the preferred one overflows, with an optional offset
+ * that replaces the target's offset at that placement.
+ */
+export type AnchorFallbackPlacement =
+  | AnchorPlacement
+  | { readonly placement: AnchorPlacement; readonly offset?: AnchorOffset };
+
 /**
  * Visibility behavior when the anchor is not visible.
  */
 export type AnchorVisibility = 'always' | 'anchors-visible' | 'no-overflow';
 
+/**
+ * Whether a target is promoted to the top layer as a popover.
+ * - `none`: The target stays in place and is stacked with `z-index`
+ * - `manual`: `popover="manual"`, closed only through the anchor
+ * - `auto`: `popover="auto"`, also light dismissed by the browser
+ */
+export type AnchorPopoverMode = 'none' | 'manual' | 'auto';
+
+/**
+ * Where a target is rendered instead of in place.
+ * - `'body'`: Appended to `document.body`
+ * - any other string: The name of a `protoAnchorOutlet` element
+ * - an element: Appended to that element
+ */
+export type AnchorPortal = string | HTMLElement;
+
+/**
+ * What happens to the view of a target while it is closed.
+ * - `unmount`: Created on open and destroyed once closed
+ * - `keep-mounted`: Created up front and hidden while closed, so its state is kept
+ * - `lazy`: Created on first open, then hidden and detached from change detection while closed
+ */
+export type AnchorMountMode = 'unmount' | 'keep-mounted' | 'lazy';
+
+/**
+ * How a target matches the width of its anchor.
+ * - `none`: The target keeps its own width
+ * - `min-width`: The target is at least as wide as the anchor
+ * - `width`: The target is exactly as wide as the anchor
+ */
+export type AnchorMatchWidth = 'none' | 'min-width' | 'width';
+
+/**
+ * What opens and closes the targets of an anchor.
+ * - `manual`: Only the open input and the public API
+ * - `hover`: Also hovering the anchor, with open and close delays
+ */
+export type AnchorTrigger = 'manual' | 'hover';
+
+/**
+ * What changed the open state of an anchor.
+ * - `trigger`: The anchor's trigger, such as hovering it
+ * - `escape`: Escape pressed in the target
+ * - `outside`: Pointer down or focus outside the target
+ * - `auto-hide`: An auto-close policy, such as a scroll or the window losing focus
+ * - `programmatic`: The public API, unless called with another reason
+ */
+export type AnchorOpenChangeReason =
+  | 'trigger'
+  | 'escape'
+  | 'outside'
+  | 'auto-hide'
+  | 'programmatic';
+
+/**
+ * How the anchor refers to its rendered targets for assistive technology.
+ * - `controls`: `aria-controls`, for popups such as menus, listboxes and dialogs
+ * - `describedby`: `aria-describedby`, for descriptions such as tooltips
+ * - `labelledby`: `aria-labelledby`, for labels
+ * - `none`: No reference
+ */
+export type AnchorRelationship = 'controls' | 'describedby' | 'labelledby' | 'none';
+
+/**
+ * A rendered target registered with its anchor.
+ */
+export interface AnchorTargetRef extends AnchorHoverTarget {
+  /** The id of the target element, referenced by the anchor's ARIA relationship. */
+  readonly id: string;
+}
+
 /**
  * Offset configuration for fine-tuning position.
  */
@@ -139,6 +246,43 @@ export interface ProtoAnchorConfig {
    * @default false
    */
   readonly defaultDisabled: boolean;
+
+  /**
+   * Whether targets shift along the cross axis to stay within the boundary by default.
+   * @default false
+   */
+  readonly defaultShift: boolean;
+
+  /**
+   * Default padding in pixels kept between shifted targets and the boundary edges.
+   * @default 0
+   */
+  readonly defaultShiftPadding: number;
+
+  /**
+   * Default trigger opening and closing targets.
+   * @default 'manual'
+   */
+  readonly defaultTrigger: AnchorTrigger;
+
+  /**
+   * Default delay in milliseconds before hover opens targets.
+   * @default 300
+   */
+  readonly defaultOpenDelay: number;
+
+  /**
+   * Default delay in milliseconds before hover closes targets.
+   * Gives the pointer time to travel from the anchor onto a target.
+   * @default 150
+   */
+  readonly defaultCloseDelay: number;
+
+  /**
+   * Default ARIA relationship between anchors and their rendered targets.
+   * @default 'controls'
+   */
+  readonly defaultRelationship: AnchorRelationship;
 }
 
 const defaultAnchorConfig: ProtoAnchorConfig = {
@@ -147,6 +291,12 @@ const defaultAnchorConfig: ProtoAnchorConfig = {
   defaultFlipBehavior: 'flip-block',
   defaultVisibility: 'always',
   defaultDisabled: false,
+  defaultShift: false,
+  defaultShiftPadding: 0,
+  defaultTrigger: 'manual',
+  defaultOpenDelay: 300,
+  defaultCloseDelay: 150,
+  defaultRelationship: 'controls',
 };
 
 // ============================================================================
@@ -160,15 +310,38 @@ export const PROTO_ANCHOR_CONTEXT = new InjectionToken<ProtoAnchorContext>('Prot
 
 export interface ProtoAnchorContext {
   readonly anchorName: string;
+  readonly nativeElement: HTMLElement;
+  readonly getReferenceRect: () => AnchorRect;
   readonly isOpen: () => boolean;
   readonly placement: () => AnchorPlacement;
   readonly offset: () => AnchorOffset;
   readonly flipBehavior: () => AnchorFlipBehavior;
   readonly visibility: () => AnchorVisibility;
   readonly disabled: () => boolean;
-  readonly close: () => void;
+  readonly close: (reason?: AnchorOpenChangeReason) => void;
+  readonly addTarget: (target: AnchorTargetRef) => () => void;
+}
+
+/**
+ * Token linking an arrow to the anchor target it is rendered in.
+ */
+const PROTO_ANCHOR_ARROW_HOST = new InjectionToken<ProtoAnchorArrowHost>('ProtoAnchorArrowHost');
+
+interface ProtoAnchorArrowHost {
+  readonly resolvedPlacement: () => AnchorPlacement;
+  readonly targetElement: () => HTMLElement | null;
+  readonly anchorElement: () => HTMLElement | null;
+  readonly anchorRect: () => AnchorRect | null;
 }
 
+/**
+ * Token holding the named outlets anchor targets can be portaled into.
+ */
+const PROTO_ANCHOR_OUTLETS = new InjectionToken<WritableSignal<ReadonlyMap<string, HTMLElement>>>(
+  'ProtoAnchorOutlets',
+  { factory: () => signal(new Map()) },
+);
+
 // ============================================================================
 // ProtoAnchor Directive
 // ============================================================================
@@ -219,7 +392,7 @@ const protoForAnchor = createProto<ProtoAnchor, ProtoAnchorConfig>(defaultAnchor
   exportAs: 'protoAnchor',
   host: {
     '[style.anchor-name]': 'anchorName()',
-    '[attr.aria-expanded]': 'isOpen()',
+    '[attr.aria-expanded]': 'popupType() === null ? null : isOpen()',
     '[attr.aria-haspopup]': 'hasPopup()',
     '[attr.data-anchor-open]': "isOpen() ? '' : null",
   },
@@ -233,13 +406,18 @@ const protoForAnchor = createProto<ProtoAnchor, ProtoAnchorConfig>(defaultAnchor
           get anchorName() {
             return anchor().anchorName();
           },
+          get nativeElement() {
+            return anchor().nativeElement;
+          },
+          getReferenceRect: () => anchor().getReferenceRect(),
           isOpen: () => anchor().isOpen(),
           placement: () => anchor().placement(),
           offset: () => anchor().offset(),
           flipBehavior: () => anchor().flipBehavior(),
           visibility: () => anchor().visibility(),
           disabled: () => anchor().disabled(),
-          close: () => anchor().close(),
+          close: reason => anchor().close(reason),
+          addTarget: target => anchor().addTarget(target),
         } satisfies ProtoAnchorContext;
       },
     },
@@ -260,12 +438,13 @@ export class ProtoAnchor {
   // -------------------------------------------------------------------------
 
   /**
-   * Whether the anchor target is currently open/visible.
+   * Whether the anchor target is open. Supports two-way binding with `[(protoAnchorOpen)]`.
+   *
+   * `protoAnchorOpenChange` is emitted when the anchor changes the open state itself,
+   * never for the initial value or values bound to `protoAnchorOpen`.
+   * `openChangeReason` tells what made the change.
    */
-  readonly openInput = input<boolean, BooleanInput>(false, {
-    transform: booleanAttribute,
-    alias: 'protoAnchorOpen',
-  });
+  readonly openModel = model<boolean>(false, { alias: 'protoAnchorOpen' });
 
   /**
    * Preferred placement of the anchor target relative to the anchor.
@@ -303,23 +482,76 @@ export class ProtoAnchor {
     alias: 'protoAnchorDisabled',
   });
 
+  /**
+   * Whether the target shifts along the cross axis to stay within the boundary,
+   * instead of being clipped at its edges.
+   */
+  readonly shift = input<boolean, BooleanInput>(this.config.defaultShift, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorShift',
+  });
+
+  /**
+   * Padding in pixels kept between a shifted target and the boundary edges.
+   */
+  readonly shiftPadding = input<number, string | number>(this.config.defaultShiftPadding, {
+    transform: numberAttribute,
+    alias: 'protoAnchorShiftPadding',
+  });
+
+  /**
+   * Element the target is kept within when shifting. Defaults to the viewport.
+   */
+  readonly boundary = input<HTMLElement | null>(null, { alias: 'protoAnchorBoundary' });
+
+  /**
+   * Virtual reference to position targets against instead of the element, such as
+   * the cursor position of a context menu or the rect of a text selection.
+   * Targets of a virtual anchor always use JavaScript positioning.
+   */
+  readonly virtualReference = input<AnchorVirtualReference | null>(null, {
+    alias: 'protoAnchorVirtualReference',
+  });
+
+  /**
+   * What opens and closes the targets, in addition to the open input and the public API.
+   */
+  readonly trigger = input<AnchorTrigger>(this.config.defaultTrigger, {
+    alias: 'protoAnchorTrigger',
+  });
+
+  /**
+   * Delay in milliseconds before hover opens the targets.
+   */
+  readonly openDelay = input<number, string | number>(this.config.defaultOpenDelay, {
+    transform: numberAttribute,
+    alias: 'protoAnchorOpenDelay',
+  });
+
+  /**
+   * Delay in milliseconds before hover closes the targets.
+   */
+  readonly closeDelay = input<number, string | number>(this.config.defaultCloseDelay, {
+    transform: numberAttribute,
+    alias: 'protoAnchorCloseDelay',
+  });
+
   /**
    * The type of popup associated with this anchor (for aria-haspopup).
-   * Set to null for no popup hint.
+   * Set to null for no popup hint, which also leaves out aria-expanded.
    */
   readonly popupType = input<'menu' | 'listbox' | 'tree' | 'grid' | 'dialog' | 'true' | null>(
     'true',
     { alias: 'protoAnchorPopupType' },
   );
 
-  // -------------------------------------------------------------------------
-  // Outputs
-  // -------------------------------------------------------------------------
-
   /**
-   * Emitted when the open state changes.
+   * How the anchor refers to its rendered targets: `aria-controls`,
+   * `aria-describedby`, `aria-labelledby` or not at all.
    */
-  readonly openChange = output<boolean>({ alias: 'protoAnchorOpenChange' });
+  readonly relationship = input<AnchorRelationship>(this.config.defaultRelationship, {
+    alias: 'protoAnchorRelationship',
+  });
 
   // -------------------------------------------------------------------------
   // Internal State
@@ -331,15 +563,27 @@ export class ProtoAnchor {
   readonly anchorName = signal(`--proto-anchor-${uniqueId('anchor')}`);
 
   /**
-   * Linked signal for internal open state management.
-   * Allows both template binding and programmatic control.
+   * Whether the anchor target is currently open. A bare `protoAnchorOpen` attribute counts as open.
+   */
+  readonly isOpen = computed(() => booleanAttribute(this.openModel()));
+
+  private readonly _openChangeReason = signal<AnchorOpenChangeReason | null>(null);
+
+  /**
+   * What made the last change of the open state, read it when `protoAnchorOpenChange` is
+   * emitted. Null until the anchor changed the open state.
+   */
+  readonly openChangeReason = this._openChangeReason.asReadonly();
+
+  /**
+   * The rendered targets, which keep a hover-triggered anchor open while hovered.
    */
-  private readonly _isOpen = linkedSignal(() => this.openInput());
+  private readonly targets = signal<readonly AnchorTargetRef[]>([]);
 
   /**
-   * Whether the anchor target is currently open.
+   * The ids of the rendered targets, referenced by the ARIA relationship.
    */
-  readonly isOpen = this._isOpen.asReadonly();
+  private readonly targetIds = computed(() => this.targets().map(target => target.id));
 
   /**
    * Computed aria-haspopup value.
@@ -352,10 +596,37 @@ export class ProtoAnchor {
   readonly state = ProtoAnchor.Proto(this);
 
   constructor() {
-    // Sync open state changes to output
-    effect(() => {
-      const isOpen = this._isOpen();
-      untracked(() => this.openChange.emit(isOpen));
+    anchorHover({
+      anchor: this.elementRef.nativeElement,
+      enabled: computed(() => this.trigger() === 'hover' && !this.disabled()),
+      open: this.isOpen,
+      openDelay: this.openDelay,
+      closeDelay: this.closeDelay,
+      targets: this.targets.asReadonly(),
+      setOpen: open => this.setOpen(open, 'trigger'),
+    });
+
+    // Reference the rendered targets through the active relationship only,
+    // keeping the ids the author already listed in that attribute
+    effect(onCleanup => {
+      const relationship = this.relationship();
+      const targetIds = this.targetIds();
+      if (relationship === 'none' || !targetIds.length) {
+        return;
+      }
+
+      const element = this.elementRef.nativeElement;
+      const attribute = `aria-${relationship}`;
+      const authorIds = element.getAttribute(attribute);
+      const ids = new Set([...(authorIds?.split(/\s+/).filter(Boolean) ?? []), ...targetIds]);
+      element.setAttribute(attribute, [...ids].join(' '));
+      onCleanup(() => {
+        if (authorIds === null) {
+          element.removeAttribute(attribute);
+        } else {
+          element.setAttribute(attribute, authorIds);
+        }
+      });
     });
   }
 
@@ -366,38 +637,47 @@ export class ProtoAnchor {
   /**
    * Opens the anchor target.
    */
-  open(): void {
+  open(reason: AnchorOpenChangeReason = 'programmatic'): void {
     if (this.disabled()) {
       return;
     }
-    this._isOpen.set(true);
+    this.changeOpen(true, reason);
   }
 
   /**
    * Closes the anchor target.
    */
-  close(): void {
-    this._isOpen.set(false);
+  close(reason: AnchorOpenChangeReason = 'programmatic'): void {
+    this.changeOpen(false, reason);
   }
 
   /**
    * Toggles the anchor target open/closed state.
    */
-  toggle(): void {
-    if (this.disabled() && !this._isOpen()) {
+  toggle(reason: AnchorOpenChangeReason = 'programmatic'): void {
+    if (this.disabled() && !this.isOpen()) {
       return;
     }
-    this._isOpen.update(v => !v);
+    this.changeOpen(!this.isOpen(), reason);
   }
 
   /**
    * Sets the open state programmatically.
    */
-  setOpen(open: boolean): void {
+  setOpen(open: boolean, reason: AnchorOpenChangeReason = 'programmatic'): void {
     if (this.disabled() && open) {
       return;
     }
-    this._isOpen.set(open);
+    this.changeOpen(open, reason);
+  }
+
+  /**
+   * Adds a rendered target, returning a function that removes it.
+   * Called by `ProtoAnchorTarget` and `ProtoAnchorTargetElement`.
+   */
+  addTarget(target: AnchorTargetRef): () => void {
+    this.targets.update(targets => [...targets, target]);
+    return () => this.targets.update(targets => targets.filter(t => t !== target));
   }
 
   /**
@@ -406,6 +686,74 @@ export class ProtoAnchor {
   get nativeElement(): HTMLElement {
     return this.elementRef.nativeElement;
   }
+
+  /**
+   * Gets the rect targets are positioned against, in client coordinates:
+   * the virtual reference when set, the element's bounding rect otherwise.
+   */
+  getReferenceRect(): AnchorRect {
+    const virtualReference = this.virtualReference();
+    if (virtualReference) {
+      return resolveVirtualReference(virtualReference);
+    }
+    return this.elementRef.nativeElement.getBoundingClientRect();
+  }
+
+  private changeOpen(open: boolean, reason: AnchorOpenChangeReason): void {
+    if (untracked(this.isOpen) === open) {
+      return;
+    }
+    // Set first, so the reason can be read when the change is emitted
+    this._openChangeReason.set(reason);
+    this.openModel.set(open);
+  }
+}
+
+// ============================================================================
+// ProtoAnchorOutlet Directive
+// ============================================================================
+
+/**
+ * Directive that marks an element as a named outlet anchor targets can be portaled into.
+ *
+ * @example
+ * ```html
+ * <div protoAnchorOutlet="overlays"></div>
+ *
+ * <div *protoAnchorTarget="anchor; portal: 'overlays'">Content</div>
+ * ```
+ */
+@Directive({
+  selector: '[protoAnchorOutlet]',
+  exportAs: 'protoAnchorOutlet',
+})
+export class ProtoAnchorOutlet {
+  private readonly elementRef = injectElementRef<HTMLElement>();
+  private readonly outlets = inject(PROTO_ANCHOR_OUTLETS);
+
+  /**
+   * The name targets refer to in their `portal` input.
+   */
+  readonly name = input.required<string>({ alias: 'protoAnchorOutlet' });
+
+  constructor() {
+    effect(onCleanup => {
+      const name = this.name();
+      const element = this.elementRef.nativeElement;
+      this.outlets.update(outlets => new Map(outlets).set(name, element));
+
+      onCleanup(() =>
+        this.outlets.update(outlets => {
+          if (outlets.get(name) !== element) {
+            return outlets;
+          }
+          const next = new Map(outlets);
+          next.delete(name);
+          return next;
+        }),
+      );
+    });
+  }
 }
 
 // ============================================================================
@@ -430,12 +778,128 @@ export interface ProtoAnchorTargetConfig {
    * @default true
    */
   readonly autoHideOnEscape: boolean;
+
+  /**
+   * Whether to auto-hide when focus moves outside.
+   * @default false
+   */
+  readonly autoHideOnFocusOutside: boolean;
+
+  /**
+   * Whether to auto-hide when an ancestor of the anchor scrolls.
+   * @default false
+   */
+  readonly autoHideOnScroll: boolean;
+
+  /**
+   * Whether to auto-hide when the anchor is fully hidden, scrolled out of the
+   * viewport or out of its clipping container.
+   * @default false
+   */
+  readonly autoHideOnAnchorHidden: boolean;
+
+  /**
+   * Whether to auto-hide when the window loses focus.
+   * @default false
+   */
+  readonly autoHideOnBlur: boolean;
+
+  /**
+   * Whether to auto-hide when the window is resized.
+   * @default false
+   */
+  readonly autoHideOnResize: boolean;
+
+  /**
+   * Strategy used to position the target.
+   * `auto` falls back to JavaScript positioning when CSS anchor positioning is unsupported.
+   * @default 'css'
+   */
+  readonly positionStrategy: AnchorPositionStrategy;
+
+  /**
+   * Whether to set the `--proto-anchor-width`, `--proto-anchor-height`,
+   * `--proto-available-width` and `--proto-available-height` CSS variables on the target.
+   * @default false
+   */
+  readonly sizeVariables: boolean;
+
+  /**
+   * How the target matches the width of the anchor.
+   * @default 'none'
+   */
+  readonly matchAnchorWidth: AnchorMatchWidth;
+
+  /**
+   * Whether to promote the target to the top layer with the Popover API.
+   * @default 'none'
+   */
+  readonly popover: AnchorPopoverMode;
+
+  /**
+   * Where to render the target instead of in place.
+   * @default null
+   */
+  readonly portal: AnchorPortal | null;
+
+  /**
+   * Maximum time in milliseconds to wait for exit animations before removing the target.
+   * @default 1000
+   */
+  readonly exitTimeout: number;
+
+  /**
+   * What happens to the view of the target while it is closed.
+   * @default 'unmount'
+   */
+  readonly mount: AnchorMountMode;
+
+  /**
+   * Placements to try, in order, when the preferred placement overflows.
+   * Replaces the flip behavior when not empty.
+   * @default []
+   */
+  readonly fallbackPlacements: readonly AnchorFallbackPlacement[];
+
+  /**
+   * What receives focus when the target opens.
+   * @default 'none'
+   */
+  readonly autoFocus: AnchorAutoFocus;
+
+  /**
+   * Whether to return focus to the anchor when the target closes with focus inside.
+   * @default false
+   */
+  readonly restoreFocus: boolean;
+
+  /**
+   * Whether to keep Tab focus inside the target while open, for modal targets.
+   * @default false
+   */
+  readonly trapFocus: boolean;
 }
 
 const defaultTargetConfig: ProtoAnchorTargetConfig = {
   useFixedPositioning: true,
   autoHideOnClickOutside: false,
   autoHideOnEscape: true,
+  autoHideOnFocusOutside: false,
+  autoHideOnScroll: false,
+  autoHideOnAnchorHidden: false,
+  autoHideOnBlur: false,
+  autoHideOnResize: false,
+  positionStrategy: 'css',
+  sizeVariables: false,
+  matchAnchorWidth: 'none',
+  popover: 'none',
+  portal: null,
+  exitTimeout: 1000,
+  mount: 'unmount',
+  fallbackPlacements: [],
+  autoFocus: 'none',
+  restoreFocus: false,
+  trapFocus: false,
 };
 
 // ============================================================================
@@ -477,16 +941,33 @@ const protoForAnchorTarget = createProto<ProtoAnchorTarget, ProtoAnchorTargetCon
  * - `position-try-fallbacks`: Handles collision detection
  * - `position-visibility`: Controls visibility based on anchor visibility
  *
+ * With the `js` position strategy, or `auto` in browsers without CSS anchor positioning,
+ * `top`/`left` are computed from the anchor's bounding rect instead, and recomputed on
+ * scroll, resize and content size changes. The `shift` collision mode, which slides the
+ * target back into its boundary along the cross axis, always uses JavaScript positioning.
+ *
+ * With `portal`, the rendered element is moved into `document.body`, a named
+ * `protoAnchorOutlet` or an element, while the view stays attached to the declaration site.
+ *
+ * With the `keep-mounted` and `lazy` mount modes, the view is hidden instead of destroyed
+ * once closed, so its state is kept until it opens again.
+ *
+ * While open, the target is a layer of the global dismissable layer stack: Escape only
+ * closes the topmost target, and targets opened inside it count as inside.
+ *
  * ## Features
- * - Pure CSS positioning (no JavaScript calculations)
+ * - Pure CSS positioning by default, with an opt-in JavaScript fallback
  * - Automatic show/hide based on anchor state
  * - Automatic fallback positioning on viewport collision
  * - Full accessibility support
  * - Data attributes for styling hooks
  *
  * ## Data Attributes (on rendered element)
- * - `data-placement`: Current placement value
+ * - `data-placement`: Placement actually used, after flipping
+ * - `data-side`: Side of the anchor the target is on (`top`, `bottom`, `left`, `right`)
+ * - `data-align`: Alignment along that side (`start`, `center`, `end`)
  * - `data-anchor-target`: Always present, identifies the element
+ * - `data-state`: `open`, or `closed` while exit animations play before removal
  *
  * @example
  * ```html
@@ -508,7 +989,25 @@ const protoForAnchorTarget = createProto<ProtoAnchorTarget, ProtoAnchorTargetCon
  */
 @Directive({
   selector: '[protoAnchorTarget]',
-  providers: [ProtoAnchorTarget.State.provide()],
+  providers: [
+    ProtoAnchorTarget.State.provide(),
+    {
+      provide: PROTO_DISMISSABLE_LAYER,
+      useFactory: () => ProtoAnchorTarget.State.inject()().layer,
+    },
+    {
+      provide: PROTO_ANCHOR_ARROW_HOST,
+      useFactory: () => {
+        const target = ProtoAnchorTarget.State.inject();
+        return {
+          resolvedPlacement: () => target().resolvedPlacement(),
+          targetElement: () => target().rootElement(),
+          anchorElement: () => target().anchor().nativeElement,
+          anchorRect: () => target().anchor().getReferenceRect(),
+        } satisfies ProtoAnchorArrowHost;
+      },
+    },
+  ],
 })
 export class ProtoAnchorTarget {
   private static readonly Proto = protoForAnchorTarget(ProtoAnchorTarget);
@@ -521,9 +1020,25 @@ export class ProtoAnchorTarget {
   private readonly viewContainerRef = inject(ViewContainerRef);
   private readonly document = inject(DOCUMENT);
   private readonly injector = inject(Injector);
+  private readonly outlets = inject(PROTO_ANCHOR_OUTLETS);
+  private readonly positionTry = inject(ProtoAnchorPositionTryRegistry);
 
   private embeddedView: EmbeddedViewRef<ProtoAnchorTargetContext> | null = null;
 
+  /** Whether the view is kept while closed, but hidden. */
+  private viewHidden = false;
+
+  /** Whether the rendered nodes are being moved, which hides a popover without closing. */
+  private movingView = false;
+
+  private readonly _rootElement = signal<HTMLElement | null>(null);
+
+  /**
+   * The rendered root element, or null while the target is closed.
+   * Useful for composed primitives that need to decorate the rendered element.
+   */
+  readonly rootElement = this._rootElement.asReadonly();
+
   // -------------------------------------------------------------------------
   // Inputs
   // -------------------------------------------------------------------------
@@ -555,6 +1070,15 @@ export class ProtoAnchorTarget {
     alias: 'protoAnchorTargetFlipBehavior',
   });
 
+  /**
+   * Placements to try, in order, when the preferred placement overflows, such as
+   * `['left-start', 'bottom']`. Replaces the flip behavior when not empty.
+   */
+  readonly fallbackPlacements = input<readonly AnchorFallbackPlacement[]>(
+    this.config.fallbackPlacements,
+    { alias: 'protoAnchorTargetFallbackPlacements' },
+  );
+
   /**
    * Override the visibility behavior from the anchor.
    */
@@ -562,6 +1086,31 @@ export class ProtoAnchorTarget {
     alias: 'protoAnchorTargetVisibility',
   });
 
+  /**
+   * Override the shift collision mode from the anchor.
+   */
+  readonly shift = input<boolean | undefined, BooleanInput | undefined>(undefined, {
+    transform: (value: BooleanInput | undefined) =>
+      value === undefined ? undefined : booleanAttribute(value),
+    alias: 'protoAnchorTargetShift',
+  });
+
+  /**
+   * Override the shift padding from the anchor.
+   */
+  readonly shiftPadding = input<number | undefined, string | number | undefined>(undefined, {
+    transform: (value: string | number | undefined) =>
+      value === undefined ? undefined : numberAttribute(value),
+    alias: 'protoAnchorTargetShiftPadding',
+  });
+
+  /**
+   * Override the shift boundary from the anchor.
+   */
+  readonly boundary = input<HTMLElement | null | undefined>(undefined, {
+    alias: 'protoAnchorTargetBoundary',
+  });
+
   /**
    * Z-index for the positioned element.
    */
@@ -597,27 +1146,232 @@ export class ProtoAnchorTarget {
     alias: 'protoAnchorTargetAutoHideOnEscape',
   });
 
-  // -------------------------------------------------------------------------
-  // Computed Styles
-  // -------------------------------------------------------------------------
+  /**
+   * Whether to auto-hide when focus moves outside.
+   */
+  readonly autoHideOnFocusOutside = input<boolean, BooleanInput>(
+    this.config.autoHideOnFocusOutside,
+    {
+      transform: booleanAttribute,
+      alias: 'protoAnchorTargetAutoHideOnFocusOutside',
+    },
+  );
 
   /**
-   * Resolved placement (from input or anchor context).
+   * Whether to auto-hide when an ancestor of the anchor scrolls.
    */
-  private readonly resolvedPlacement = computed((): AnchorPlacement => {
-    const inputPlacement = this.placement();
-    if (inputPlacement !== undefined) {
-      return inputPlacement;
-    }
-    return this.anchor().placement();
+  readonly autoHideOnScroll = input<boolean, BooleanInput>(this.config.autoHideOnScroll, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorTargetAutoHideOnScroll',
   });
 
   /**
-   * Resolved offset (from input or anchor context).
+   * Whether to auto-hide when the anchor is fully hidden, scrolled out of the
+   * viewport or out of its clipping container.
    */
-  private readonly resolvedOffset = computed((): AnchorOffset => {
-    const inputOffset = this.offset();
-    if (inputOffset !== undefined) {
+  readonly autoHideOnAnchorHidden = input<boolean, BooleanInput>(
+    this.config.autoHideOnAnchorHidden,
+    {
+      transform: booleanAttribute,
+      alias: 'protoAnchorTargetAutoHideOnAnchorHidden',
+    },
+  );
+
+  /**
+   * Whether to auto-hide when the window loses focus.
+   */
+  readonly autoHideOnBlur = input<boolean, BooleanInput>(this.config.autoHideOnBlur, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorTargetAutoHideOnBlur',
+  });
+
+  /**
+   * Whether to auto-hide when the window is resized.
+   */
+  readonly autoHideOnResize = input<boolean, BooleanInput>(this.config.autoHideOnResize, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorTargetAutoHideOnResize',
+  });
+
+  /**
+   * Strategy used to position the target.
+   */
+  readonly positionStrategy = input<AnchorPositionStrategy>(this.config.positionStrategy, {
+    alias: 'protoAnchorTargetPositionStrategy',
+  });
+
+  /**
+   * Whether to set CSS variables with the anchor size and the available space.
+   */
+  readonly sizeVariables = input<boolean, BooleanInput>(this.config.sizeVariables, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorTargetSizeVariables',
+  });
+
+  /**
+   * How the target matches the width of the anchor.
+   */
+  readonly matchAnchorWidth = input<AnchorMatchWidth>(this.config.matchAnchorWidth, {
+    alias: 'protoAnchorTargetMatchAnchorWidth',
+  });
+
+  /**
+   * Whether to promote the target to the top layer with the Popover API, escaping
+   * `overflow: hidden`, transformed ancestors and stacking contexts.
+   */
+  readonly popover = input<AnchorPopoverMode>(this.config.popover, {
+    alias: 'protoAnchorTargetPopover',
+  });
+
+  /**
+   * Where to render the target instead of in place, escaping clipping ancestors:
+   * `'body'`, the name of a `protoAnchorOutlet`, or an element.
+   * The view keeps the injector and change detection of the declaration site.
+   */
+  readonly portal = input<AnchorPortal | null>(this.config.portal, {
+    alias: 'protoAnchorTargetPortal',
+  });
+
+  /**
+   * Maximum time in milliseconds to wait for exit animations before removing the target.
+   */
+  readonly exitTimeout = input<number, string | number>(this.config.exitTimeout, {
+    transform: numberAttribute,
+    alias: 'protoAnchorTargetExitTimeout',
+  });
+
+  /**
+   * What happens to the view of the target while it is closed: `'unmount'`,
+   * `'keep-mounted'` or `'lazy'`.
+   */
+  readonly mount = input<AnchorMountMode>(this.config.mount, {
+    alias: 'protoAnchorTargetMount',
+  });
+
+  /**
+   * Id assigned to the rendered element when it has none, referenced by the anchor's ARIA relationship.
+   */
+  readonly id = input<string>(uniqueId('proto-anchor-target'), { alias: 'protoAnchorTargetId' });
+
+  /**
+   * What receives focus when the target opens: `'none'`, `'first-tabbable'`,
+   * a selector within the target, or an element.
+   */
+  readonly autoFocus = input<AnchorAutoFocus>(this.config.autoFocus, {
+    alias: 'protoAnchorTargetAutoFocus',
+  });
+
+  /**
+   * Whether to return focus to the anchor when the target closes with focus inside.
+   */
+  readonly restoreFocus = input<boolean, BooleanInput>(this.config.restoreFocus, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorTargetRestoreFocus',
+  });
+
+  /**
+   * Whether to keep Tab focus inside the target while open, for modal targets.
+   */
+  readonly trapFocus = input<boolean, BooleanInput>(this.config.trapFocus, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorTargetTrapFocus',
+  });
+
+  // -------------------------------------------------------------------------
+  // Outputs
+  // -------------------------------------------------------------------------
+
+  /**
+   * Emits once the target is removed after closing, after its exit animations finished.
+   */
+  readonly exitComplete = output<void>({ alias: 'protoAnchorTargetExitComplete' });
+
+  /**
+   * Emits on Escape while the target is the topmost dismissable layer.
+   * Calling `preventDefault()` keeps it open.
+   */
+  readonly escapeKeyDown = output<ProtoDismissEvent<KeyboardEvent>>({
+    alias: 'protoAnchorTargetEscapeKeyDown',
+  });
+
+  /**
+   * Emits on pointer down outside the target, its anchor and the layers opened inside it.
+   * Calling `preventDefault()` keeps it open.
+   */
+  readonly pointerDownOutside = output<ProtoDismissEvent<PointerEvent>>({
+    alias: 'protoAnchorTargetPointerDownOutside',
+  });
+
+  /**
+   * Emits when focus moves outside the target, its anchor and the layers opened inside it.
+   * Calling `preventDefault()` keeps it open.
+   */
+  readonly focusOutside = output<ProtoDismissEvent<FocusEvent>>({
+    alias: 'protoAnchorTargetFocusOutside',
+  });
+
+  /**
+   * The target in the dismissable layer stack, attached while open.
+   * Layers opened inside the target are its descendants.
+   */
+  readonly layer = inject(ProtoDismissableLayerStack).create({
+    parent: inject(PROTO_DISMISSABLE_LAYER, { optional: true, skipSelf: true }),
+    contains: node =>
+      !!this.rootElement()?.contains(node) || this.anchor().nativeElement.contains(node),
+    escapeKeyDown: event => {
+      this.escapeKeyDown.emit(event);
+      if (!this.autoHideOnEscape()) {
+        event.preventDefault();
+      }
+    },
+    pointerDownOutside: event => {
+      this.pointerDownOutside.emit(event);
+      if (!this.autoHideOnClickOutside()) {
+        event.preventDefault();
+      }
+    },
+    focusOutside: event => {
+      this.focusOutside.emit(event);
+      if (!this.autoHideOnFocusOutside()) {
+        event.preventDefault();
+      }
+    },
+    dismiss: event => {
+      this.anchor().close(event.originalEvent instanceof KeyboardEvent ? 'escape' : 'outside');
+      return true;
+    },
+  });
+
+  /**
+   * Keeps the view rendered after closing while its exit animations run.
+   */
+  private readonly presence = presence(
+    computed(() => this.anchor().isOpen()),
+    this.rootElement,
+    { timeout: () => this.exitTimeout() },
+  );
+
+  // -------------------------------------------------------------------------
+  // Computed Styles
+  // -------------------------------------------------------------------------
+
+  /**
+   * Preferred placement (from input or anchor context).
+   */
+  private readonly preferredPlacement = computed((): AnchorPlacement => {
+    const inputPlacement = this.placement();
+    if (inputPlacement !== undefined) {
+      return inputPlacement;
+    }
+    return this.anchor().placement();
+  });
+
+  /**
+   * Resolved offset (from input or anchor context).
+   */
+  private readonly resolvedOffset = computed((): AnchorOffset => {
+    const inputOffset = this.offset();
+    if (inputOffset !== undefined) {
       return inputOffset;
     }
     return this.anchor().offset();
@@ -634,6 +1388,16 @@ export class ProtoAnchorTarget {
     return this.anchor().flipBehavior();
   });
 
+  /**
+   * The fallback placements when given, the flip behavior otherwise.
+   */
+  private readonly resolvedFallbacks = computed(
+    (): AnchorFlipBehavior | readonly AnchorFallbackPlacement[] => {
+      const fallbackPlacements = this.fallbackPlacements();
+      return fallbackPlacements.length > 0 ? fallbackPlacements : this.resolvedFlipBehavior();
+    },
+  );
+
   /**
    * Resolved visibility.
    */
@@ -645,6 +1409,68 @@ export class ProtoAnchorTarget {
     return this.anchor().visibility();
   });
 
+  /**
+   * Resolved shift padding, or undefined when shifting is disabled.
+   */
+  private readonly resolvedShiftPadding = computed((): number | undefined => {
+    const shift = this.shift() ?? this.anchor().shift();
+    return shift ? (this.shiftPadding() ?? this.anchor().shiftPadding()) : undefined;
+  });
+
+  /**
+   * Resolved shift boundary, null for the viewport.
+   */
+  private readonly resolvedBoundary = computed((): HTMLElement | null => {
+    const inputBoundary = this.boundary();
+    if (inputBoundary !== undefined) {
+      return inputBoundary;
+    }
+    return this.anchor().boundary();
+  });
+
+  /**
+   * Whether the target is positioned against the viewport.
+   * Elements in the top layer always are.
+   */
+  private readonly usesFixedPositioning = computed(
+    (): boolean => this.useFixed() || this.popover() !== 'none',
+  );
+
+  /**
+   * Whether the position is computed with JavaScript instead of CSS anchor positioning.
+   * Shifting requires measuring the target and virtual anchors have no element to
+   * link to, so both always use JavaScript.
+   */
+  private readonly usesJsPositioning = computed((): boolean => {
+    const strategy = this.positionStrategy();
+    return (
+      strategy === 'js' ||
+      this.resolvedShiftPadding() !== undefined ||
+      this.anchor().virtualReference() !== null ||
+      (strategy === 'auto' && !supportsCssAnchorPositioning(this.document))
+    );
+  });
+
+  /**
+   * The element the view is rendered into, or null to render in place.
+   * Named outlets that are not rendered yet fall back to rendering in place.
+   */
+  private readonly portalHost = computed((): HTMLElement | null => {
+    const portal = this.portal();
+    if (portal === null || typeof portal !== 'string') {
+      return portal;
+    }
+    return portal === 'body' ? this.document.body : (this.outlets().get(portal) ?? null);
+  });
+
+  private readonly _resolvedPlacement = linkedSignal(() => this.preferredPlacement());
+
+  /**
+   * The placement the target is actually rendered at, after flipping.
+   * Measured after render and on scroll/resize, so it follows `position-try-fallbacks`.
+   */
+  readonly resolvedPlacement = this._resolvedPlacement.asReadonly();
+
   readonly state = ProtoAnchorTarget.Proto(this);
 
   constructor() {
@@ -652,111 +1478,435 @@ export class ProtoAnchorTarget {
     effect(() => {
       const anchor = this.anchor();
       const isOpen = anchor.isOpen();
+      const isPresent = this.presence.isPresent();
+      const mount = this.mount();
 
       untracked(() => {
         if (isOpen && !this.embeddedView) {
           this.createView(anchor);
-        } else if (!isOpen && this.embeddedView) {
-          this.destroyView();
-        } else if (isOpen && this.embeddedView) {
+        } else if (isOpen && this.viewHidden) {
+          this.showView(anchor);
+        } else if (!isPresent && !this.embeddedView && mount === 'keep-mounted') {
+          this.createView(anchor, false);
+        } else if (!isPresent && this.embeddedView) {
+          const wasShown = !this.viewHidden;
+          if (mount === 'unmount') {
+            this.destroyView();
+          } else {
+            this.hideView(mount === 'lazy');
+          }
+          if (wasShown) {
+            this.exitComplete.emit();
+          }
+        } else if (this.embeddedView) {
           this.updateViewContext(anchor);
         }
       });
     });
 
+    // Reflect the presence status, so closing starts the exit animations in CSS
+    effect(() => {
+      const rootElement = this.rootElement();
+      const status = this.presence.status();
+      rootElement?.setAttribute('data-state', status === 'open' ? 'open' : 'closed');
+    });
+
+    // Effect to move the view when the portal host changes
+    effect(() => {
+      const portalHost = this.portalHost();
+
+      untracked(() => {
+        if (this.embeddedView) {
+          this.moveView(portalHost);
+        }
+      });
+    });
+
     // Effect to update styles when placement/offset changes
     effect(() => {
-      const placement = this.resolvedPlacement();
+      const placement = this.preferredPlacement();
       const offset = this.resolvedOffset();
-      const flipBehavior = this.resolvedFlipBehavior();
+      const fallbacks = this.resolvedFallbacks();
       const visibility = this.resolvedVisibility();
       const zIndex = this.zIndex();
-      const useFixed = this.useFixed();
+      const useFixed = this.usesFixedPositioning();
+      const usesJs = this.usesJsPositioning();
+      const popover = this.popover();
       const anchor = this.anchor();
 
       untracked(() => {
         if (this.embeddedView) {
-          this.applyStyles(anchor, placement, offset, flipBehavior, visibility, zIndex, useFixed);
+          this.applyStyles(
+            anchor,
+            placement,
+            offset,
+            fallbacks,
+            visibility,
+            zIndex,
+            useFixed,
+            usesJs,
+            popover,
+          );
         }
       });
     });
 
-    // Handle click outside
+    // Position the target with JavaScript, or measure where the browser placed it
     afterRenderEffect(
       onCleanup => {
-        if (!this.autoHideOnClickOutside() || !this.embeddedView) {
+        const rootElement = this.rootElement();
+        if (!rootElement) {
           return;
         }
 
         const anchor = this.anchor();
+        const placement = this.preferredPlacement();
+
+        let update: () => void;
+        if (this.usesJsPositioning()) {
+          const offset = this.resolvedOffset();
+          const fallbacks = this.resolvedFallbacks();
+          const shiftPadding = this.resolvedShiftPadding();
+          const boundary = this.resolvedBoundary();
+          const useFixed = this.usesFixedPositioning();
+
+          update = () =>
+            this.updatePosition(rootElement, anchor, placement, offset, fallbacks, useFixed, {
+              padding: shiftPadding,
+              boundary,
+            });
+        } else {
+          update = () => {
+            const detected = detectPlacement(
+              anchor.nativeElement.getBoundingClientRect(),
+              rootElement.getBoundingClientRect(),
+              placement,
+            );
+            if (detected) {
+              this._resolvedPlacement.set(detected);
+            }
+          };
+        }
+
+        update();
+        onCleanup(watchAnchorPosition(this.document, [rootElement, anchor.nativeElement], update));
+      },
+      { injector: this.injector },
+    );
 
-        const handler = (event: MouseEvent) => {
-          const target = event.target as Node;
-          const rootNode = this.embeddedView?.rootNodes[0] as HTMLElement | undefined;
+    // Promote the target to the top layer and sync popover toggles to the anchor
+    afterRenderEffect(
+      onCleanup => {
+        const rootElement = this.rootElement();
+        const popover = this.popover();
+        if (!rootElement || popover === 'none' || typeof rootElement.showPopover !== 'function') {
+          return;
+        }
 
-          if (rootNode && !rootNode.contains(target) && !anchor.nativeElement.contains(target)) {
-            anchor.close();
+        const anchor = this.anchor();
+        const handler = (event: ToggleEvent) => {
+          // Light dismiss, or hidePopover() called from outside
+          if (event.newState === 'closed' && !this.movingView && anchor.isOpen()) {
+            anchor.close('outside');
           }
         };
 
-        this.document.addEventListener('click', handler, { capture: true });
-        onCleanup(() => this.document.removeEventListener('click', handler, { capture: true }));
+        rootElement.setAttribute('popover', popover);
+        rootElement.addEventListener('toggle', handler);
+        rootElement.showPopover();
+
+        onCleanup(() => {
+          rootElement.removeEventListener('toggle', handler);
+          if (rootElement.isConnected) {
+            rootElement.hidePopover();
+          }
+          rootElement.removeAttribute('popover');
+        });
       },
       { injector: this.injector },
     );
 
-    // Handle escape key
+    // Expose the anchor size and available space, and match the anchor width
     afterRenderEffect(
       onCleanup => {
-        if (!this.autoHideOnEscape() || !this.embeddedView) {
+        const rootElement = this.rootElement();
+        const sizeVariables = this.sizeVariables();
+        const matchAnchorWidth = this.matchAnchorWidth();
+        if (!rootElement || (!sizeVariables && matchAnchorWidth === 'none')) {
           return;
         }
 
         const anchor = this.anchor();
+        const anchorElement = anchor.nativeElement;
+        const placement = this.resolvedPlacement();
+        const offset = this.resolvedOffset();
+        const boundary = this.resolvedBoundary();
+
+        const update = () =>
+          applySizeStyles(this.document, rootElement, anchor.getReferenceRect(), {
+            placement,
+            offset,
+            boundary,
+            sizeVariables,
+            matchAnchorWidth,
+          });
+
+        update();
+        const stop = watchAnchorPosition(this.document, [anchorElement], update);
+        onCleanup(() => {
+          stop();
+          clearSizeStyles(rootElement, matchAnchorWidth);
+        });
+      },
+      { injector: this.injector },
+    );
 
-        const handler = (event: KeyboardEvent) => {
-          if (event.key === 'Escape') {
-            event.preventDefault();
-            event.stopPropagation();
-            anchor.close();
-          }
+    // Reflect the resolved placement on the rendered element and template context
+    effect(() => {
+      const rootElement = this.rootElement();
+      const placement = this.resolvedPlacement();
+      if (!rootElement) {
+        return;
+      }
+
+      const { direction, alignment } = parsePlacement(placement);
+      rootElement.setAttribute('data-placement', placement);
+      rootElement.setAttribute('data-side', direction);
+      rootElement.setAttribute('data-align', alignment);
+
+      untracked(() => {
+        if (this.embeddedView && this.embeddedView.context.placement !== placement) {
+          this.embeddedView.context.placement = placement;
+          this.embeddedView.markForCheck();
+        }
+      });
+    });
+
+    // Close through the anchor on the enabled auto-hide policies, so the open state
+    // matches what is visible
+    afterRenderEffect(
+      onCleanup => {
+        const anchor = this.anchor();
+        if (!this.rootElement() || !anchor.isOpen()) {
+          return;
+        }
+
+        const policies: AutoHidePolicies = {
+          scroll: this.autoHideOnScroll(),
+          // Virtual anchors are positioned against their reference, not the element
+          anchorHidden: this.autoHideOnAnchorHidden() && !anchor.virtualReference(),
+          blur: this.autoHideOnBlur(),
+          resize: this.autoHideOnResize(),
         };
 
-        this.document.addEventListener('keydown', handler, { capture: true });
-        onCleanup(() => this.document.removeEventListener('keydown', handler, { capture: true }));
+        onCleanup(
+          watchAutoHide(this.document, anchor.nativeElement, policies, () =>
+            anchor.close('auto-hide'),
+          ),
+        );
       },
       { injector: this.injector },
     );
+
+    // Join the dismissable layer stack while open, so nested layers close in order
+    afterRenderEffect(
+      onCleanup => {
+        if (!this.rootElement() || !this.anchor().isOpen()) {
+          return;
+        }
+
+        this.layer.attach();
+        onCleanup(() => this.layer.detach());
+      },
+      { injector: this.injector },
+    );
+
+    // Register with the anchor, which refers to the target by id and keeps
+    // a hover-triggered anchor open while the target or its nested targets are hovered
+    afterRenderEffect(
+      onCleanup => {
+        const rootElement = this.rootElement();
+        const anchor = this.anchor();
+        const id = this.id();
+        if (!rootElement || !anchor.isOpen()) {
+          return;
+        }
+
+        const assignId = !rootElement.id;
+        if (assignId) {
+          rootElement.id = id;
+        }
+        const removeTarget = anchor.addTarget({
+          id: rootElement.id,
+          element: rootElement,
+          contains: node => this.layer.isInside(node),
+        });
+        onCleanup(() => {
+          removeTarget();
+          if (assignId) {
+            rootElement.removeAttribute('id');
+          }
+        });
+      },
+      { injector: this.injector },
+    );
+
+    // Move focus into the target when it opens, and back to the anchor when it closes
+    anchorFocus({
+      injector: this.injector,
+      target: this.rootElement,
+      anchor: computed(() => this.anchor().nativeElement),
+      open: computed(() => this.anchor().isOpen()),
+      autoFocus: this.autoFocus,
+      restoreFocus: this.restoreFocus,
+      trapFocus: this.trapFocus,
+      host: this.portalHost,
+    });
   }
 
-  private createView(anchor: ProtoAnchor): void {
+  private createView(anchor: ProtoAnchor, open = true): void {
     const context: ProtoAnchorTargetContext = {
       $implicit: anchor,
       protoAnchorTarget: anchor,
       placement: this.resolvedPlacement(),
-      isOpen: true,
+      isOpen: open,
     };
 
-    this.embeddedView = this.viewContainerRef.createEmbeddedView(this.templateRef, context);
+    const view = this.viewContainerRef.createEmbeddedView(this.templateRef, context);
+    this.embeddedView = view;
+    this.moveView(this.portalHost());
+
+    // When the view is destroyed along with the declaration site, only the declaration
+    // site's DOM is removed, so nodes moved into a portal host are removed here
+    view.onDestroy(() => {
+      const marker = this.viewContainerRef.element.nativeElement as Node;
+      for (const node of view.rootNodes as ChildNode[]) {
+        if (node.parentNode !== marker.parentNode) {
+          node.remove();
+        }
+      }
+    });
+
+    if (open) {
+      this.showView(anchor);
+    } else {
+      this.hideView(false);
+    }
+  }
+
+  /**
+   * Renders the view as the open target, after creating it or while it is hidden.
+   */
+  private showView(anchor: ProtoAnchor): void {
+    const view = this.embeddedView;
+    if (!view) {
+      return;
+    }
+
+    if (this.viewHidden) {
+      for (const element of this.rootElements()) {
+        element.style.removeProperty('display');
+      }
+      this.viewHidden = false;
+      view.reattach();
+    }
+
+    const rootNode = view.rootNodes[0] as Node | undefined;
+    this._rootElement.set(
+      rootNode?.nodeType === Node.ELEMENT_NODE ? (rootNode as HTMLElement) : null,
+    );
 
     // Apply styles to the root element
     this.applyStyles(
       anchor,
-      this.resolvedPlacement(),
+      this.preferredPlacement(),
       this.resolvedOffset(),
-      this.resolvedFlipBehavior(),
+      this.resolvedFallbacks(),
       this.resolvedVisibility(),
       this.zIndex(),
-      this.useFixed(),
+      this.usesFixedPositioning(),
+      this.usesJsPositioning(),
+      this.popover(),
     );
 
-    this.embeddedView.markForCheck();
+    this.updateViewContext(anchor);
+  }
+
+  /**
+   * Hides the view instead of destroying it, and optionally detaches it from change
+   * detection until it is shown again. Effects tied to the rendered element stop, as
+   * `rootElement` is null while hidden.
+   */
+  private hideView(detach: boolean): void {
+    const view = this.embeddedView;
+    if (!view) {
+      return;
+    }
+
+    for (const element of this.rootElements()) {
+      element.style.setProperty('display', 'none', 'important');
+      element.setAttribute('data-state', 'closed');
+    }
+
+    this.viewHidden = true;
+    this._rootElement.set(null);
+    view.context.isOpen = false;
+
+    if (detach) {
+      view.detach();
+    } else {
+      view.reattach();
+      view.markForCheck();
+    }
+  }
+
+  private rootElements(): HTMLElement[] {
+    return (this.embeddedView?.rootNodes ?? []).filter(
+      (node: Node): node is HTMLElement => node.nodeType === Node.ELEMENT_NODE,
+    );
+  }
+
+  /**
+   * Moves the rendered nodes into the portal host, or back in place when null.
+   * The view stays attached to the view container, so it is still checked and
+   * destroyed with the declaration site.
+   */
+  private moveView(portalHost: HTMLElement | null): void {
+    const rootNodes: Node[] = this.embeddedView?.rootNodes ?? [];
+    const moved = portalHost ? rootNodes.filter(node => node.parentNode !== portalHost) : rootNodes;
+
+    this.movingView = true;
+    try {
+      // Views are rendered before the view container's comment node
+      const marker = this.viewContainerRef.element.nativeElement as Node;
+      for (const node of moved) {
+        if (portalHost) {
+          portalHost.appendChild(node);
+        } else {
+          marker.parentNode?.insertBefore(node, marker);
+        }
+      }
+    } finally {
+      this.movingView = false;
+    }
+
+    // Removing a popover from the document hides it, so show it again
+    const rootElement = untracked(this.rootElement);
+    if (
+      rootElement?.isConnected &&
+      rootElement.hasAttribute('popover') &&
+      moved.includes(rootElement)
+    ) {
+      rootElement.showPopover();
+    }
   }
 
   private destroyView(): void {
     if (this.embeddedView) {
       this.embeddedView.destroy();
       this.embeddedView = null;
+      this.viewHidden = false;
+      this._rootElement.set(null);
     }
   }
 
@@ -768,7 +1918,7 @@ export class ProtoAnchorTarget {
     this.embeddedView.context.$implicit = anchor;
     this.embeddedView.context.protoAnchorTarget = anchor;
     this.embeddedView.context.placement = this.resolvedPlacement();
-    this.embeddedView.context.isOpen = true;
+    this.embeddedView.context.isOpen = anchor.isOpen();
     this.embeddedView.markForCheck();
   }
 
@@ -776,10 +1926,12 @@ export class ProtoAnchorTarget {
     anchor: ProtoAnchor,
     placement: AnchorPlacement,
     offset: AnchorOffset,
-    flipBehavior: AnchorFlipBehavior,
+    fallbacks: AnchorFlipBehavior | readonly AnchorFallbackPlacement[],
     visibility: AnchorVisibility,
     zIndex: number,
     useFixed: boolean,
+    usesJs: boolean,
+    popover: AnchorPopoverMode,
   ): void {
     const rootElement = this.embeddedView?.rootNodes[0] as HTMLElement | undefined;
     if (!rootElement || rootElement.nodeType !== Node.ELEMENT_NODE) {
@@ -788,18 +1940,59 @@ export class ProtoAnchorTarget {
 
     const style = rootElement.style;
 
+    // The popover UA styles stretch the element over the viewport with auto margins
+    const isPopover = popover !== 'none';
+    const resetMargin = () => {
+      if (isPopover) {
+        style.margin = '0';
+      } else {
+        style.removeProperty('margin');
+      }
+    };
+
     // Position type
     style.position = useFixed ? 'fixed' : 'absolute';
 
+    // Z-index
+    style.zIndex = String(zIndex);
+
+    // Data attributes
+    rootElement.setAttribute('data-anchor-target', '');
+
+    // top/left are computed after render by the JavaScript fallback
+    if (usesJs) {
+      style.removeProperty('position-anchor');
+      style.removeProperty('position-area');
+      style.removeProperty('position-try-fallbacks');
+      style.removeProperty('position-visibility');
+      resetMargin();
+      if (isPopover) {
+        style.right = 'auto';
+        style.bottom = 'auto';
+      }
+      return;
+    }
+
+    if (isPopover) {
+      style.inset = 'auto';
+    } else {
+      style.removeProperty('top');
+      style.removeProperty('left');
+    }
+
     // Link to anchor
     style.setProperty('position-anchor', anchor.anchorName());
 
     // Position area based on placement
     style.setProperty('position-area', PLACEMENT_TO_POSITION_AREA[placement]);
 
-    // Flip fallbacks
-    if (flipBehavior !== 'none') {
-      style.setProperty('position-try-fallbacks', flipBehavior);
+    // Flip fallbacks, or the rules generated for the fallback placements
+    const positionTryFallbacks =
+      typeof fallbacks === 'string'
+        ? fallbacks
+        : fallbacks.map(fallback => this.registerPositionTry(fallback, offset)).join(', ');
+    if (positionTryFallbacks !== 'none') {
+      style.setProperty('position-try-fallbacks', positionTryFallbacks);
     } else {
       style.removeProperty('position-try-fallbacks');
     }
@@ -807,42 +2000,64 @@ export class ProtoAnchorTarget {
     // Visibility
     style.setProperty('position-visibility', visibility);
 
-    // Z-index
-    style.zIndex = String(zIndex);
-
     // Offset via margin
     if (offset.main !== 0 || offset.cross !== 0) {
-      const marginStyle = this.computeMargin(placement, offset);
+      const marginStyle = computePositionMargin(placement, offset);
       style.margin = marginStyle;
     } else {
-      style.removeProperty('margin');
+      resetMargin();
     }
-
-    // Data attributes
-    rootElement.setAttribute('data-placement', placement);
-    rootElement.setAttribute('data-anchor-target', '');
   }
 
-  private computeMargin(placement: AnchorPlacement, offset: AnchorOffset): string {
-    const mainPx = `${offset.main}px`;
-    const crossPx = `${offset.cross}px`;
+  /**
+   * Computes top/left from the anchor's bounding rect for the JavaScript fallback,
+   * and records the placement used after flipping.
+   */
+  private updatePosition(
+    rootElement: HTMLElement,
+    anchor: ProtoAnchor,
+    placement: AnchorPlacement,
+    offset: AnchorOffset,
+    fallbacks: AnchorFlipBehavior | readonly AnchorFallbackPlacement[],
+    useFixed: boolean,
+    shift: { padding: number | undefined; boundary: HTMLElement | null },
+  ): void {
+    const position = computeAnchorPosition(
+      anchor.getReferenceRect(),
+      { width: rootElement.offsetWidth, height: rootElement.offsetHeight },
+      placement,
+      offset,
+      fallbacks,
+      getBoundaryRect(this.document, shift.boundary),
+      shift.padding,
+    );
 
-    const isTop = placement.startsWith('top');
-    const isBottom = placement.startsWith('bottom');
-    const isLeft = placement.startsWith('left');
-    const isRight = placement.startsWith('right');
+    let top = position.top;
+    let left = position.left;
 
-    if (isTop) {
-      return `0 0 ${mainPx} ${crossPx}`;
-    } else if (isBottom) {
-      return `${mainPx} 0 0 ${crossPx}`;
-    } else if (isLeft) {
-      return `${crossPx} ${mainPx} 0 0`;
-    } else if (isRight) {
-      return `${crossPx} 0 0 ${mainPx}`;
+    // Absolute positioning is relative to the padding box of the offset parent
+    const offsetParent = rootElement.offsetParent as HTMLElement | null;
+    if (!useFixed && offsetParent) {
+      const parentRect = offsetParent.getBoundingClientRect();
+      top += offsetParent.scrollTop - parentRect.top - offsetParent.clientTop;
+      left += offsetParent.scrollLeft - parentRect.left - offsetParent.clientLeft;
     }
 
-    return '0';
+    rootElement.style.top = `${top}px`;
+    rootElement.style.left = `${left}px`;
+    this._resolvedPlacement.set(position.placement);
+  }
+
+  /**
+   * Adds the `@position-try` rule for a fallback placement to the shared stylesheet,
+   * and returns its name.
+   */
+  private registerPositionTry(fallback: AnchorFallbackPlacement, offset: AnchorOffset): string {
+    const resolved = resolveFallbackPlacement(fallback, offset);
+    return this.positionTry.register(getPositionTryName(resolved.placement, resolved.offset), {
+      'position-area': PLACEMENT_TO_POSITION_AREA[resolved.placement],
+      margin: computePositionMargin(resolved.placement, resolved.offset),
+    });
   }
 
   /**
@@ -885,9 +2100,29 @@ export class ProtoAnchorTarget {
     '[style.margin]': 'marginStyle()',
     '[style.z-index]': 'zIndex()',
     '[attr.data-placement]': 'resolvedPlacement()',
+    '[attr.data-side]': 'resolvedSide().direction',
+    '[attr.data-align]': 'resolvedSide().alignment',
     '[attr.data-anchor-target]': "''",
-    '(keydown)': 'onEscape($event)',
   },
+  providers: [
+    {
+      provide: PROTO_DISMISSABLE_LAYER,
+      useFactory: () => inject(ProtoAnchorTargetElement).layer,
+    },
+    {
+      provide: PROTO_ANCHOR_ARROW_HOST,
+      useFactory: () => {
+        const target = inject(ProtoAnchorTargetElement);
+        const anchorContext = inject(PROTO_ANCHOR_CONTEXT, { optional: true });
+        return {
+          resolvedPlacement: () => target.resolvedPlacement(),
+          targetElement: () => target.nativeElement,
+          anchorElement: () => anchorContext?.nativeElement ?? null,
+          anchorRect: () => anchorContext?.getReferenceRect() ?? null,
+        } satisfies ProtoAnchorArrowHost;
+      },
+    },
+  ],
 })
 export class ProtoAnchorTargetElement {
   private readonly elementRef = injectElementRef<HTMLElement>();
@@ -958,6 +2193,51 @@ export class ProtoAnchorTargetElement {
     alias: 'protoAnchorTargetElementAutoHideOnEscape',
   });
 
+  /**
+   * Whether to set CSS variables with the anchor size and the available space.
+   */
+  readonly sizeVariables = input<boolean, BooleanInput>(false, {
+    transform: booleanAttribute,
+    alias: 'protoAnchorTargetElementSizeVariables',
+  });
+
+  /**
+   * How the element matches the width of the anchor.
+   */
+  readonly matchAnchorWidth = input<AnchorMatchWidth>('none', {
+    alias: 'protoAnchorTargetElementMatchAnchorWidth',
+  });
+
+  /**
+   * Id assigned to the element when it has none, referenced by the anchor's ARIA relationship.
+   */
+  readonly id = input<string>(uniqueId('proto-anchor-target'), {
+    alias: 'protoAnchorTargetElementId',
+  });
+
+  /**
+   * The element in the dismissable layer stack, attached while its anchor is open.
+   * Only Escape dismisses it. Layers opened inside the element are its descendants.
+   */
+  readonly layer = inject(ProtoDismissableLayerStack).create({
+    parent: inject(PROTO_DISMISSABLE_LAYER, { optional: true, skipSelf: true }),
+    contains: node =>
+      this.elementRef.nativeElement.contains(node) ||
+      !!this.anchorContext?.nativeElement.contains(node),
+    escapeKeyDown: event => {
+      if (!this.autoHideOnEscape()) {
+        event.preventDefault();
+      }
+    },
+    dismiss: event => {
+      if (!(event.originalEvent instanceof KeyboardEvent) || !this.anchorContext) {
+        return false;
+      }
+      this.anchorContext.close('escape');
+      return true;
+    },
+  });
+
   // -------------------------------------------------------------------------
   // Computed Styles
   // -------------------------------------------------------------------------
@@ -973,11 +2253,11 @@ export class ProtoAnchorTargetElement {
   });
 
   protected readonly positionAreaStyle = computed(() => {
-    const placement = this.resolvedPlacement();
+    const placement = this.preferredPlacement();
     return PLACEMENT_TO_POSITION_AREA[placement];
   });
 
-  protected readonly resolvedPlacement = computed((): AnchorPlacement => {
+  protected readonly preferredPlacement = computed((): AnchorPlacement => {
     const inputPlacement = this.placement();
     if (inputPlacement !== undefined) {
       return inputPlacement;
@@ -985,6 +2265,16 @@ export class ProtoAnchorTargetElement {
     return this.anchorContext?.placement() ?? 'bottom';
   });
 
+  private readonly _resolvedPlacement = linkedSignal(() => this.preferredPlacement());
+
+  /**
+   * The placement the element is actually rendered at, after flipping.
+   * Measured after render and on scroll/resize when linked through a ProtoAnchor.
+   */
+  readonly resolvedPlacement = this._resolvedPlacement.asReadonly();
+
+  protected readonly resolvedSide = computed(() => parsePlacement(this.resolvedPlacement()));
+
   private readonly resolvedOffset = computed((): AnchorOffset => {
     const inputOffset = this.offset();
     if (inputOffset !== undefined) {
@@ -1009,7 +2299,7 @@ export class ProtoAnchorTargetElement {
 
   protected readonly marginStyle = computed(() => {
     const offset = this.resolvedOffset();
-    const placement = this.resolvedPlacement();
+    const placement = this.preferredPlacement();
 
     if (offset.main === 0 && offset.cross === 0) {
       return null;
@@ -1036,15 +2326,96 @@ export class ProtoAnchorTargetElement {
     return null;
   });
 
-  protected onEscape(event: KeyboardEvent): void {
-    if (!this.autoHideOnEscape() || event.key !== 'Escape') {
-      return;
-    }
+  constructor() {
+    // Join the dismissable layer stack while the anchor is open, so nested layers close in order
+    effect(onCleanup => {
+      if (!this.anchorContext?.isOpen()) {
+        return;
+      }
+
+      this.layer.attach();
+      onCleanup(() => this.layer.detach());
+    });
+
+    // Register with the anchor, which refers to the element by id
+    effect(onCleanup => {
+      const element = this.elementRef.nativeElement;
+      const assignId = !element.id;
+      if (assignId) {
+        element.id = this.id();
+      }
+      const removeTarget = this.anchorContext?.addTarget({
+        id: element.id,
+        element,
+        contains: node => element.contains(node),
+      });
+      onCleanup(() => {
+        removeTarget?.();
+        if (assignId) {
+          element.removeAttribute('id');
+        }
+      });
+    });
+
+    // Measure where the browser placed the element
+    afterRenderEffect(
+      onCleanup => {
+        const anchorElement = this.anchorContext?.nativeElement;
+        const placement = this.preferredPlacement();
+        if (!anchorElement) {
+          return;
+        }
+
+        const element = this.elementRef.nativeElement;
+        const update = () => {
+          const detected = detectPlacement(
+            anchorElement.getBoundingClientRect(),
+            element.getBoundingClientRect(),
+            placement,
+          );
+          if (detected) {
+            this._resolvedPlacement.set(detected);
+          }
+        };
 
-    event.preventDefault();
-    event.stopPropagation();
+        update();
+        onCleanup(watchAnchorPosition(this.document, [element, anchorElement], update));
+      },
+      { injector: this.injector },
+    );
+
+    // Expose the anchor size and available space, and match the anchor width
+    afterRenderEffect(
+      onCleanup => {
+        const anchorElement = this.anchorContext?.nativeElement;
+        const sizeVariables = this.sizeVariables();
+        const matchAnchorWidth = this.matchAnchorWidth();
+        if (!anchorElement || (!sizeVariables && matchAnchorWidth === 'none')) {
+          return;
+        }
 
-    this.anchorContext?.close();
+        const element = this.elementRef.nativeElement;
+        const placement = this.resolvedPlacement();
+        const offset = this.resolvedOffset();
+
+        const update = () =>
+          applySizeStyles(this.document, element, anchorElement.getBoundingClientRect(), {
+            placement,
+            offset,
+            boundary: null,
+            sizeVariables,
+            matchAnchorWidth,
+          });
+
+        update();
+        const stop = watchAnchorPosition(this.document, [anchorElement], update);
+        onCleanup(() => {
+          stop();
+          clearSizeStyles(element, matchAnchorWidth);
+        });
+      },
+      { injector: this.injector },
+    );
   }
 
   get nativeElement(): HTMLElement {
@@ -1052,6 +2423,134 @@ export class ProtoAnchorTargetElement {
   }
 }
 
+// ============================================================================
+// Auto Hide
+// ============================================================================
+
+interface AutoHidePolicies {
+  readonly scroll: boolean;
+  readonly anchorHidden: boolean;
+  readonly blur: boolean;
+  readonly resize: boolean;
+}
+
+/**
+ * Calls `close` on the enabled policies: a scroll of an ancestor of the anchor, the anchor
+ * becoming fully hidden, and the window losing focus or being resized.
+ * Returns a function that stops watching.
+ */
+function watchAutoHide(
+  document: Document,
+  anchorElement: HTMLElement,
+  policies: AutoHidePolicies,
+  close: () => void,
+): () => void {
+  const view = document.defaultView;
+  const cleanups: (() => void)[] = [];
+
+  if (policies.scroll) {
+    const onScroll = (event: Event) => {
+      if ((event.target as Node | null)?.contains(anchorElement)) {
+        close();
+      }
+    };
+    document.addEventListener('scroll', onScroll, { capture: true, passive: true });
+    cleanups.push(() => document.removeEventListener('scroll', onScroll, { capture: true }));
+  }
+
+  // Intersection is clipped by the ancestors with overflow, not only the viewport
+  if (policies.anchorHidden && typeof view?.IntersectionObserver === 'function') {
+    const observer = new view.IntersectionObserver(entries => {
+      if (entries.at(-1)?.isIntersecting === false) {
+        close();
+      }
+    });
+    observer.observe(anchorElement);
+    cleanups.push(() => observer.disconnect());
+  }
+
+  if (policies.blur) {
+    view?.addEventListener('blur', close);
+    cleanups.push(() => view?.removeEventListener('blur', close));
+  }
+
+  if (policies.resize) {
+    view?.addEventListener('resize', close);
+    cleanups.push(() => view?.removeEventListener('resize', close));
+  }
+
+  return () => {
+    for (const cleanup of cleanups) {
+      cleanup();
+    }
+  };
+}
+
+// ============================================================================
+// Size Styles
+// ============================================================================
+
+/**
+ * Gets the rect of a boundary element, or of the viewport when null.
+ */
+function getBoundaryRect(document: Document, boundary: HTMLElement | null): AnchorRect {
+  if (boundary) {
+    return boundary.getBoundingClientRect();
+  }
+
+  const viewport = document.documentElement;
+  return { top: 0, left: 0, width: viewport.clientWidth, height: viewport.clientHeight };
+}
+
+/**
+ * Sets the size CSS variables and the matched anchor width on a target element.
+ */
+function applySizeStyles(
+  document: Document,
+  target: HTMLElement,
+  anchorRect: AnchorRect,
+  options: {
+    placement: AnchorPlacement;
+    offset: AnchorOffset;
+    boundary: HTMLElement | null;
+    sizeVariables: boolean;
+    matchAnchorWidth: AnchorMatchWidth;
+  },
+): void {
+  const style = target.style;
+
+  if (options.sizeVariables) {
+    const available = computeAvailableSize(
+      anchorRect,
+      options.placement,
+      options.offset,
+      getBoundaryRect(document, options.boundary),
+    );
+    style.setProperty('--proto-anchor-width', `${anchorRect.width}px`);
+    style.setProperty('--proto-anchor-height', `${anchorRect.height}px`);
+    style.setProperty('--proto-available-width', `${available.width}px`);
+    style.setProperty('--proto-available-height', `${available.height}px`);
+  }
+
+  if (options.matchAnchorWidth !== 'none') {
+    style.setProperty(options.matchAnchorWidth, `${anchorRect.width}px`);
+  }
+}
+
+/**
+ * Removes the styles set by `applySizeStyles`.
+ */
+function clearSizeStyles(target: HTMLElement, matchAnchorWidth: AnchorMatchWidth): void {
+  const style = target.style;
+  style.removeProperty('--proto-anchor-width');
+  style.removeProperty('--proto-anchor-height');
+  style.removeProperty('--proto-available-width');
+  style.removeProperty('--proto-available-height');
+  if (matchAnchorWidth !== 'none') {
+    style.removeProperty(matchAnchorWidth);
+  }
+}
+
 // ============================================================================
 // ProtoAnchorArrow Directive
 // ============================================================================
@@ -1075,6 +2574,16 @@ const defaultArrowConfig: ProtoAnchorArrowConfig = {
   defaultHeight: 5,
 };
 
+/**
+ * Rotation of an arrow pointing up, so it faces the anchor from each side of it.
+ */
+const ARROW_ROTATION: Record<'top' | 'bottom' | 'left' | 'right', number> = {
+  top: 180,
+  bottom: 0,
+  left: 90,
+  right: -90,
+};
+
 const protoForAnchorArrow = createProto<ProtoAnchorArrow, ProtoAnchorArrowConfig>(
   defaultArrowConfig,
 );
@@ -1082,12 +2591,15 @@ const protoForAnchorArrow = createProto<ProtoAnchorArrow, ProtoAnchorArrowConfig
 /**
  * Directive for rendering a pointing arrow on an anchor target.
  *
- * The arrow is positioned using CSS to point toward the anchor element.
- * It automatically adjusts its rotation based on the current placement.
+ * The arrow positions itself absolutely on the target edge facing the anchor,
+ * points at the anchor's center (clamped to the target's padding), and rotates
+ * to face the anchor for every placement, including after flipping.
+ *
+ * Style the arrow pointing up; it is rotated around its center for the other sides.
  *
  * ## Data Attributes
  * - `data-anchor-arrow`: Always present
- * - `data-placement`: Current placement (inherited from parent)
+ * - `data-side`: Side of the anchor the target is on
  *
  * @example
  * ```html
@@ -1100,21 +2612,9 @@ const protoForAnchorArrow = createProto<ProtoAnchorArrow, ProtoAnchorArrowConfig
  * @example
  * ```css
  * [protoAnchorArrow] {
- *   position: absolute;
- *   width: 10px;
- *   height: 5px;
  *   background: white;
  *   clip-path: polygon(50% 0%, 0% 100%, 100% 100%);
  * }
- *
- * [data-placement^="top"] [protoAnchorArrow] {
- *   bottom: -5px;
- *   transform: rotate(180deg);
- * }
- *
- * [data-placement^="bottom"] [protoAnchorArrow] {
- *   top: -5px;
- * }
  * ```
  */
 @Directive({
@@ -1123,7 +2623,12 @@ const protoForAnchorArrow = createProto<ProtoAnchorArrow, ProtoAnchorArrowConfig
   host: {
     '[style.width.px]': 'width()',
     '[style.height.px]': 'height()',
+    '[style.position]': "side() ? 'absolute' : null",
+    '[style.top.px]': 'position()?.top',
+    '[style.left.px]': 'position()?.left',
+    '[style.transform]': 'transform()',
     '[attr.data-anchor-arrow]': "''",
+    '[attr.data-side]': 'side()',
   },
   providers: [ProtoAnchorArrow.State.provide()],
 })
@@ -1134,6 +2639,9 @@ export class ProtoAnchorArrow {
   static readonly Hooks = ProtoAnchorArrow.Proto.hooks;
 
   private readonly config = ProtoAnchorArrow.Config.inject();
+  private readonly document = inject(DOCUMENT);
+  private readonly injector = inject(Injector);
+  private readonly host = inject(PROTO_ANCHOR_ARROW_HOST, { optional: true });
 
   /**
    * Width of the arrow in pixels.
@@ -1151,7 +2659,74 @@ export class ProtoAnchorArrow {
     alias: 'protoAnchorArrowHeight',
   });
 
+  /**
+   * Side of the anchor the target is on, or null outside of an anchor target.
+   */
+  readonly side = computed(() => {
+    const placement = this.host?.resolvedPlacement();
+    return placement ? parsePlacement(placement).direction : null;
+  });
+
+  private readonly _position = signal<{ top: number; left: number } | null>(null);
+
+  /**
+   * Measured top/left of the arrow, relative to the target's padding box.
+   */
+  protected readonly position = this._position.asReadonly();
+
+  protected readonly transform = computed(() => {
+    const side = this.side();
+    return side ? `rotate(${ARROW_ROTATION[side]}deg)` : null;
+  });
+
   readonly state = ProtoAnchorArrow.Proto(this);
+
+  constructor() {
+    // Point the arrow at the anchor's center
+    afterRenderEffect(
+      onCleanup => {
+        const host = this.host;
+        const side = this.side();
+        const targetElement = host?.targetElement();
+        const anchorElement = host?.anchorElement();
+        const arrowSize = { width: this.width(), height: this.height() };
+        if (!host || !side || !targetElement || !anchorElement) {
+          return;
+        }
+
+        const update = () => {
+          const anchorRect = host.anchorRect();
+          if (!anchorRect) {
+            return;
+          }
+
+          const style = getComputedStyle(targetElement);
+          this._position.set(
+            computeArrowPosition(
+              anchorRect,
+              targetElement.getBoundingClientRect(),
+              side,
+              arrowSize,
+              readEdges(style, edge => `border-${edge}-width`),
+              readEdges(style, edge => `padding-${edge}`),
+            ),
+          );
+        };
+
+        update();
+        onCleanup(watchAnchorPosition(this.document, [targetElement, anchorElement], update));
+      },
+      { injector: this.injector },
+    );
+  }
+}
+
+/**
+ * Reads the pixel widths of the four edges of a box property from a computed style.
+ */
+function readEdges(style: CSSStyleDeclaration, property: (edge: string) => string): AnchorEdges {
+  const read = (edge: string) => parseFloat(style.getPropertyValue(property(edge))) || 0;
+  return { top: read('top'), right: read('right'), bottom: read('bottom'), left: read('left') };
 }
 
 // ============================================================================
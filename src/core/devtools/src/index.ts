@@ -0,0 +1,2 @@
+export * from './lib/devtools';
+export * from './lib/proto-inspector';
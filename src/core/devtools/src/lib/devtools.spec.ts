@@ -0,0 +1,127 @@
+import { createProto } from '@angular-proto/core';
+import { ChangeDetectionStrategy, Component, Directive, input, viewChild } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { fireEvent, render, screen } from '@testing-library/angular';
+import { afterEach, describe, expect, it } from 'vitest';
+import { provideProtoDevtools } from './devtools';
+import { ProtoInspector } from './proto-inspector';
+
+// ============================================================================
+// Test Host Components
+// ============================================================================
+
+const protoForInspected = createProto<InspectedDir>();
+
+@Directive({
+  selector: '[inspected]',
+  exportAs: 'inspected',
+  providers: [InspectedDir.State.provide()],
+})
+class InspectedDir {
+  private static readonly Proto = protoForInspected(InspectedDir);
+  static readonly State = InspectedDir.Proto.state;
+
+  readonly label = input<string>('none', { alias: 'inspected' });
+  readonly state = InspectedDir.Proto(this);
+}
+
+@Component({
+  selector: 'test-devtools',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [InspectedDir, ProtoInspector],
+  template: `
+    <section #outer="inspected" data-testid="outer" inspected="outer">
+      <span #inner="inspected" data-testid="inner" inspected="inner"></span>
+    </section>
+
+    <proto-inspector />
+  `,
+})
+class TestDevtools {
+  readonly outer = viewChild.required('outer', { read: InspectedDir });
+  readonly inner = viewChild.required('inner', { read: InspectedDir });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('provideProtoDevtools', () => {
+  afterEach(() => {
+    delete window.__angularProto;
+  });
+
+  async function setup() {
+    const result = await render(TestDevtools, { providers: [provideProtoDevtools()] });
+    const devtools = window.__angularProto;
+    if (!devtools) {
+      throw new Error('window.__angularProto is not installed');
+    }
+    return { ...result, devtools };
+  }
+
+  it('should list the live protos', async () => {
+    const { fixture, devtools } = await setup();
+    const { outer, inner } = fixture.componentInstance;
+
+    expect(devtools.list().map(proto => proto.protoId)).toEqual([
+      outer().state.protoId,
+      inner().state.protoId,
+    ]);
+    expect(devtools.get(inner().state.protoId)?.inputs[0].value).toBe('inner');
+    expect(devtools.get('missing')).toBeNull();
+  });
+
+  it('should find the protos hosted by an element', async () => {
+    const { fixture, devtools } = await setup();
+
+    expect(devtools.find(screen.getByTestId('inner'))).toEqual([
+      expect.objectContaining({ protoId: fixture.componentInstance.inner().state.protoId }),
+    ]);
+  });
+
+  it('should nest the protos along their ancestry', async () => {
+    const { fixture, devtools } = await setup();
+    const { outer, inner } = fixture.componentInstance;
+
+    const [root] = devtools.tree();
+    expect(root.proto.protoId).toBe(outer().state.protoId);
+    expect(root.children.map(node => node.proto.protoId)).toEqual([inner().state.protoId]);
+  });
+
+  it('should outline the host element of a proto', async () => {
+    const { fixture, devtools } = await setup();
+    const element = screen.getByTestId('inner');
+
+    devtools.highlight(fixture.componentInstance.inner().state.protoId);
+    expect(element.style.outline).not.toBe('');
+
+    devtools.highlight(null);
+    expect(element.style.outline).toBe('');
+  });
+
+  it('should uninstall the API when the application is destroyed', async () => {
+    await setup();
+
+    TestBed.resetTestingModule();
+
+    expect(window.__angularProto).toBeUndefined();
+  });
+});
+
+describe('ProtoInspector', () => {
+  it('should show the inputs of the selected proto and whether they are controlled', async () => {
+    const { fixture } = await render(TestDevtools);
+    const { inner } = fixture.componentInstance;
+
+    inner().state().label.control('controlled');
+    fireEvent.click(screen.getByText('Protos (2)'));
+    fixture.detectChanges();
+    fireEvent.click(screen.getByText(inner().state.protoId, { exact: false }));
+    fixture.detectChanges();
+
+    const details = screen.getByTestId('proto-inspector-details');
+    expect(details).toHaveTextContent('"controlled"');
+    expect(details).toHaveTextContent(/label\s*"controlled"\s*controlled/);
+  });
+});
@@ -0,0 +1,129 @@
+import { getLiveProtos, inspectProto, type ProtoInspection } from '@angular-proto/core';
+import { DOCUMENT } from '@angular/common';
+import {
+  DestroyRef,
+  EnvironmentProviders,
+  inject,
+  isDevMode,
+  provideEnvironmentInitializer,
+  untracked,
+} from '@angular/core';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A live proto and the protos nested in it.
+ */
+export interface ProtoTreeNode {
+  readonly proto: ProtoInspection;
+  readonly children: readonly ProtoTreeNode[];
+}
+
+/**
+ * The inspector API installed as `window.__angularProto` in dev mode.
+ */
+export interface ProtoDevtools {
+  /** Inspects every live proto, in creation order. */
+  list(): ProtoInspection[];
+  /** Inspects the live proto with an id, or returns null. */
+  get(protoId: string): ProtoInspection | null;
+  /** Inspects the live protos hosted by an element, such as `$0` in the browser devtools. */
+  find(element: Element): ProtoInspection[];
+  /** The live protos nested along their ancestry chain. */
+  tree(): ProtoTreeNode[];
+  /** Outlines the host element of a proto, or removes the outline with null. */
+  highlight(protoId: string | null): void;
+}
+
+declare global {
+  interface Window {
+    __angularProto?: ProtoDevtools;
+  }
+}
+
+// ============================================================================
+// Inspector API
+// ============================================================================
+
+/**
+ * Builds a tree of inspected protos from their parent ids. Protos whose parent
+ * is not in the list are roots.
+ */
+export function buildProtoTree(protos: readonly ProtoInspection[]): ProtoTreeNode[] {
+  const ids = new Set(protos.map(proto => proto.protoId));
+  const build = (parentId: string | null): ProtoTreeNode[] =>
+    protos
+      .filter(proto =>
+        parentId === null
+          ? proto.parentId === null || !ids.has(proto.parentId)
+          : proto.parentId === parentId,
+      )
+      .map(proto => ({ proto, children: build(proto.protoId) }));
+
+  return build(null);
+}
+
+/**
+ * Creates the inspector API over the live protos.
+ */
+export function createProtoDevtools(): ProtoDevtools {
+  const liveProtos = getLiveProtos();
+  let highlighted: { element: HTMLElement; outline: string } | null = null;
+
+  const list = () => untracked(() => liveProtos().map(state => inspectProto(state)));
+
+  return {
+    list,
+    get: protoId => list().find(proto => proto.protoId === protoId) ?? null,
+    find: element => list().filter(proto => proto.element === element),
+    tree: () => buildProtoTree(list()),
+    highlight: protoId => {
+      if (highlighted) {
+        highlighted.element.style.outline = highlighted.outline;
+        highlighted = null;
+      }
+
+      const element =
+        protoId === null
+          ? null
+          : untracked(liveProtos).find(state => state.protoId === protoId)?.elementRef
+              .nativeElement;
+      if (element) {
+        highlighted = { element, outline: element.style.outline };
+        element.style.outline = '2px solid #e91e63';
+      }
+    },
+  };
+}
+
+/**
+ * Installs the inspector API as `window.__angularProto` while the application runs.
+ * Does nothing in production, where protos are not tracked.
+ *
+ * @example
+ * ```ts
+ * bootstrapApplication(App, {
+ *   providers: [provideProtoDevtools()],
+ * });
+ * ```
+ */
+export function provideProtoDevtools(): EnvironmentProviders {
+  return provideEnvironmentInitializer(() => {
+    const window = inject(DOCUMENT).defaultView;
+    if (!isDevMode() || !window) {
+      return;
+    }
+
+    const devtools = createProtoDevtools();
+    window.__angularProto = devtools;
+
+    inject(DestroyRef).onDestroy(() => {
+      devtools.highlight(null);
+      if (window.__angularProto === devtools) {
+        delete window.__angularProto;
+      }
+    });
+  });
+}
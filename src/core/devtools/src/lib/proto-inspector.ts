@@ -0,0 +1,240 @@
+import {
+  getLiveProtos,
+  inspectProto,
+  type ProtoHook,
+  type ProtoInspection,
+} from '@angular-proto/core';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  DestroyRef,
+  inject,
+  isDevMode,
+  signal,
+} from '@angular/core';
+import { buildProtoTree, createProtoDevtools, type ProtoTreeNode } from './devtools';
+
+/**
+ * A row of the inspector overlay: a proto and its depth in the tree.
+ */
+interface ProtoInspectorRow {
+  readonly proto: ProtoInspection;
+  readonly depth: number;
+}
+
+/**
+ * Dev-mode overlay listing the live protos as a tree. Selecting a proto shows its
+ * host element, resolved config, hooks and input values, and whether each input is
+ * driven by the template or controlled. Hovering a proto outlines its host element.
+ *
+ * Renders nothing in production.
+ *
+ * @example
+ * ```html
+ * @if (showInspector) {
+ *   <proto-inspector />
+ * }
+ * ```
+ */
+@Component({
+  selector: 'proto-inspector',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    @if (enabled) {
+      <section aria-label="Proto inspector" class="proto-inspector">
+        <button class="proto-inspector-toggle" (click)="collapsed.set(!collapsed())">
+          Protos ({{ rows().length }})
+        </button>
+
+        @if (!collapsed()) {
+          <ul class="proto-inspector-tree">
+            @for (row of rows(); track row.proto.protoId) {
+              <li>
+                <button
+                  class="proto-inspector-row"
+                  [attr.aria-pressed]="row.proto.protoId === selectedId()"
+                  [style.padding-inline-start.px]="8 + row.depth * 12"
+                  (click)="select(row.proto.protoId)"
+                  (mouseenter)="devtools.highlight(row.proto.protoId)"
+                  (mouseleave)="devtools.highlight(null)"
+                >
+                  {{ row.proto.protoName }}
+                  <small>{{ row.proto.protoId }} &lt;{{ tagName(row.proto) }}&gt;</small>
+                </button>
+              </li>
+            }
+          </ul>
+
+          @if (selected(); as proto) {
+            <div class="proto-inspector-details" data-testid="proto-inspector-details">
+              <h3>{{ proto.protoName }}</h3>
+
+              <h4>Inputs</h4>
+              <table>
+                @for (input of proto.inputs; track input.name) {
+                  <tr>
+                    <th scope="row">{{ input.name }}</th>
+                    <td>{{ format(input.value) }}</td>
+                    <td>{{ input.isControlled ? 'controlled' : 'template' }}</td>
+                  </tr>
+                }
+              </table>
+
+              <h4>Config</h4>
+              <pre>{{ format(proto.config) }}</pre>
+
+              <h4>Hooks</h4>
+              <ol>
+                @for (hook of proto.hooks; track $index) {
+                  <li>{{ hookName(hook) }}</li>
+                } @empty {
+                  <li>None</li>
+                }
+              </ol>
+            </div>
+          }
+        }
+      </section>
+    }
+  `,
+  styles: `
+    .proto-inspector {
+      position: fixed;
+      inset-block-end: 8px;
+      inset-inline-end: 8px;
+      z-index: 2147483647;
+      display: flex;
+      flex-direction: column;
+      max-block-size: 60vh;
+      inline-size: 360px;
+      overflow: auto;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+      background: #fff;
+      color: #222;
+      font: 12px/1.4 monospace;
+    }
+
+    .proto-inspector-tree {
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .proto-inspector-row {
+      display: block;
+      inline-size: 100%;
+      border: 0;
+      background: none;
+      font: inherit;
+      text-align: start;
+    }
+
+    .proto-inspector-row[aria-pressed='true'] {
+      background: #fce4ec;
+    }
+
+    .proto-inspector-details {
+      padding: 8px;
+      border-block-start: 1px solid #ccc;
+    }
+
+    pre {
+      margin: 0;
+      white-space: pre-wrap;
+    }
+  `,
+})
+export class ProtoInspector {
+  private readonly liveProtos = getLiveProtos();
+
+  protected readonly enabled = isDevMode();
+  protected readonly devtools = createProtoDevtools();
+
+  /**
+   * Whether only the toggle button is shown.
+   */
+  readonly collapsed = signal(true);
+
+  /**
+   * The id of the proto whose details are shown.
+   */
+  readonly selectedId = signal<string | null>(null);
+
+  protected readonly rows = computed((): ProtoInspectorRow[] => {
+    const tree = buildProtoTree(this.liveProtos().map(state => inspectProto(state)));
+    const rows: ProtoInspectorRow[] = [];
+    const flatten = (nodes: readonly ProtoTreeNode[], depth: number) => {
+      for (const node of nodes) {
+        rows.push({ proto: node.proto, depth });
+        flatten(node.children, depth + 1);
+      }
+    };
+    flatten(tree, 0);
+    return rows;
+  });
+
+  protected readonly selected = computed(
+    () => this.rows().find(row => row.proto.protoId === this.selectedId())?.proto ?? null,
+  );
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.devtools.highlight(null));
+  }
+
+  protected select(protoId: string): void {
+    this.selectedId.set(this.selectedId() === protoId ? null : protoId);
+  }
+
+  protected tagName(proto: ProtoInspection): string {
+    return proto.element.tagName.toLowerCase();
+  }
+
+  protected hookName(hook: ProtoHook<object, object>): string {
+    return typeof hook === 'function'
+      ? hook.name || '(anonymous)'
+      : (hook.name ?? `{ ${Object.keys(hook).join(', ')} }`);
+  }
+
+  protected format(value: unknown): string {
+    return formatValue(value);
+  }
+}
+
+/**
+ * Formats an inspected value for display. Elements, functions and circular
+ * references, such as a directive instance passed as an input, are summarized.
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'function') {
+    return `ƒ ${value.name || '(anonymous)'}`;
+  }
+
+  const seen = new WeakSet<object>();
+  try {
+    return (
+      JSON.stringify(
+        value,
+        (_key, current: unknown) => {
+          if (typeof current === 'function') {
+            return `ƒ ${current.name || '(anonymous)'}`;
+          }
+          if (typeof Element !== 'undefined' && current instanceof Element) {
+            return `<${current.tagName.toLowerCase()}>`;
+          }
+          if (typeof current === 'object' && current !== null) {
+            if (seen.has(current)) {
+              return '[Circular]';
+            }
+            seen.add(current);
+          }
+          return current;
+        },
+        2,
+      ) ?? String(value)
+    );
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,221 @@
+import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
+import { fireEvent, render, screen } from '@testing-library/angular';
+import { describe, expect, it } from 'vitest';
+import {
+  ProtoDismissableLayer,
+  ProtoDismissableLayerStack,
+  type ProtoDismissEvent,
+} from './dismissable-layer';
+
+// ============================================================================
+// Test Host Components
+// ============================================================================
+
+@Component({
+  selector: 'test-dismissable-layer',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ProtoDismissableLayer],
+  template: `
+    <button data-testid="outside">Outside</button>
+
+    @if (outerOpen()) {
+      <div
+        data-testid="outer"
+        protoDismissableLayer
+        (protoDismissableLayerDismiss)="outerOpen.set(false)"
+        (protoDismissableLayerPointerDownOutside)="onOuterPointerDownOutside($event)"
+      >
+        <button data-testid="outer-button">Outer</button>
+
+        @if (innerOpen()) {
+          <div
+            data-testid="inner"
+            protoDismissableLayer
+            [protoDismissableLayerDisabled]="innerDisabled()"
+            (protoDismissableLayerDismiss)="innerOpen.set(false)"
+          >
+            <input data-testid="inner-input" (keydown)="onInnerKeyDown($event)" />
+          </div>
+        }
+      </div>
+    }
+  `,
+})
+class TestDismissableLayer {
+  readonly stack = inject(ProtoDismissableLayerStack);
+  readonly outerOpen = signal(true);
+  readonly innerOpen = signal(true);
+  readonly innerDisabled = signal(false);
+  readonly keepOuterOpen = signal(false);
+  readonly handleInnerEscape = signal(false);
+  readonly innerKeys: string[] = [];
+
+  onInnerKeyDown(event: KeyboardEvent): void {
+    this.innerKeys.push(event.key);
+    if (this.handleInnerEscape()) {
+      event.preventDefault();
+    }
+  }
+
+  onOuterPointerDownOutside(event: ProtoDismissEvent<PointerEvent>): void {
+    if (this.keepOuterOpen()) {
+      event.preventDefault();
+    }
+  }
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ProtoDismissableLayer', () => {
+  it('should dismiss only the topmost layer on Escape', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    fixture.detectChanges();
+
+    expect(component.innerOpen()).toBe(false);
+    expect(component.outerOpen()).toBe(true);
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    fixture.detectChanges();
+
+    expect(component.outerOpen()).toBe(false);
+  });
+
+  it('should let controls inside the topmost layer receive Escape first', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    fireEvent.keyDown(screen.getByTestId('inner-input'), { key: 'Escape' });
+    fixture.detectChanges();
+
+    expect(component.innerKeys).toEqual(['Escape']);
+    expect(component.innerOpen()).toBe(false);
+    expect(component.outerOpen()).toBe(true);
+  });
+
+  it('should not dismiss when a control inside the layer handled Escape', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    component.handleInnerEscape.set(true);
+    fireEvent.keyDown(screen.getByTestId('inner-input'), { key: 'Escape' });
+    fixture.detectChanges();
+
+    expect(component.innerOpen()).toBe(true);
+    expect(component.outerOpen()).toBe(true);
+  });
+
+  it('should dismiss descendant layers on pointer down in their ancestor', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    fireEvent.pointerDown(screen.getByTestId('outer-button'));
+    fixture.detectChanges();
+
+    expect(component.innerOpen()).toBe(false);
+    expect(component.outerOpen()).toBe(true);
+  });
+
+  it('should dismiss every layer on pointer down outside of all of them', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    fireEvent.pointerDown(screen.getByTestId('outside'));
+    fixture.detectChanges();
+
+    expect(component.innerOpen()).toBe(false);
+    expect(component.outerOpen()).toBe(false);
+  });
+
+  it('should keep a layer open when the outside event is cancelled', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    component.keepOuterOpen.set(true);
+    fireEvent.pointerDown(screen.getByTestId('outside'));
+    fixture.detectChanges();
+
+    expect(component.innerOpen()).toBe(false);
+    expect(component.outerOpen()).toBe(true);
+  });
+
+  it('should dismiss on focus outside', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    fireEvent.focusIn(screen.getByTestId('outer-button'));
+    fixture.detectChanges();
+
+    expect(component.innerOpen()).toBe(false);
+    expect(component.outerOpen()).toBe(true);
+  });
+
+  it('should leave the stack when disabled', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const component = fixture.componentInstance;
+
+    component.innerDisabled.set(true);
+    fixture.detectChanges();
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    fixture.detectChanges();
+
+    expect(component.innerOpen()).toBe(true);
+    expect(component.outerOpen()).toBe(false);
+  });
+
+  it('should leave the stack when destroyed', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const { stack } = fixture.componentInstance;
+
+    expect(stack.layers.length).toBe(2);
+
+    fixture.componentInstance.outerOpen.set(false);
+    fixture.detectChanges();
+
+    expect(stack.layers.length).toBe(0);
+  });
+});
+
+describe('ProtoDismissableLayerStack', () => {
+  it('should treat descendant layers as inside regardless of the DOM', async () => {
+    const { fixture } = await render(TestDismissableLayer);
+    const { stack } = fixture.componentInstance;
+    fixture.componentInstance.outerOpen.set(false);
+    fixture.detectChanges();
+
+    const parentElement = document.createElement('div');
+    const childElement = document.createElement('div');
+    document.body.append(parentElement, childElement);
+
+    const dismissed: string[] = [];
+    const parent = stack.create({
+      contains: node => parentElement.contains(node),
+      dismiss: () => dismissed.push('parent') > 0,
+    });
+    const child = stack.create({
+      parent,
+      contains: node => childElement.contains(node),
+      dismiss: () => dismissed.push('child') > 0,
+    });
+
+    parent.attach();
+    child.attach();
+    expect(child.isTopmost).toBe(true);
+
+    fireEvent.pointerDown(childElement);
+    expect(dismissed).toEqual([]);
+
+    fireEvent.pointerDown(document.body);
+    expect(dismissed).toEqual(['child', 'parent']);
+
+    child.detach();
+    parent.detach();
+    parentElement.remove();
+    childElement.remove();
+  });
+});
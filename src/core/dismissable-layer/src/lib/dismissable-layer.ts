@@ -0,0 +1,347 @@
+import { createProto } from '@angular-proto/core';
+import { injectElementRef } from '@angular-proto/core/utils';
+import type { BooleanInput } from '@angular/cdk/coercion';
+import { DOCUMENT } from '@angular/common';
+import {
+  booleanAttribute,
+  DestroyRef,
+  Directive,
+  effect,
+  inject,
+  Injectable,
+  InjectionToken,
+  input,
+  output,
+} from '@angular/core';
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Event emitted before a layer is dismissed. Calling `preventDefault()` keeps the layer open.
+ */
+export class ProtoDismissEvent<E extends Event = Event> {
+  private _defaultPrevented = false;
+
+  constructor(
+    /** The native event that triggered the dismissal. */
+    readonly originalEvent: E,
+  ) {}
+
+  /** Whether `preventDefault()` was called. */
+  get defaultPrevented(): boolean {
+    return this._defaultPrevented;
+  }
+
+  /** Keeps the layer open. */
+  preventDefault(): void {
+    this._defaultPrevented = true;
+  }
+}
+
+// ============================================================================
+// Layer Stack
+// ============================================================================
+
+export interface ProtoDismissableLayerOptions {
+  /**
+   * The layer this layer was opened from. Nodes inside this layer count as inside the parent.
+   */
+  readonly parent?: ProtoDismissableLayerRef | null;
+
+  /** Whether a node is inside the layer. */
+  readonly contains: (node: Node) => boolean;
+
+  /** Called on Escape while the layer is the topmost one. */
+  readonly escapeKeyDown?: (event: ProtoDismissEvent<KeyboardEvent>) => void;
+
+  /** Called on pointer down outside the layer and its descendant layers. */
+  readonly pointerDownOutside?: (event: ProtoDismissEvent<PointerEvent>) => void;
+
+  /** Called when focus moves outside the layer and its descendant layers. */
+  readonly focusOutside?: (event: ProtoDismissEvent<FocusEvent>) => void;
+
+  /**
+   * Called when the event was not cancelled. Returns whether the layer was dismissed.
+   */
+  readonly dismiss: (event: ProtoDismissEvent) => boolean;
+}
+
+/**
+ * A layer created by `ProtoDismissableLayerStack`. It only receives events while attached.
+ */
+export class ProtoDismissableLayerRef {
+  constructor(
+    private readonly stack: ProtoDismissableLayerStack,
+    /** The options the layer was created with. */
+    readonly options: ProtoDismissableLayerOptions,
+  ) {}
+
+  /** The layer this layer was opened from. */
+  get parent(): ProtoDismissableLayerRef | null {
+    return this.options.parent ?? null;
+  }
+
+  /** Whether the layer is in the stack. */
+  get isAttached(): boolean {
+    return this.stack.layers.includes(this);
+  }
+
+  /** Whether the layer is the topmost attached layer. */
+  get isTopmost(): boolean {
+    return this.stack.layers.at(-1) === this;
+  }
+
+  /** Adds the layer on top of the stack. */
+  attach(): void {
+    this.stack.attach(this);
+  }
+
+  /** Removes the layer from the stack. */
+  detach(): void {
+    this.stack.detach(this);
+  }
+
+  /**
+   * Whether a node is inside the layer or one of its attached descendant layers.
+   */
+  isInside(node: Node): boolean {
+    return (
+      this.options.contains(node) ||
+      this.stack.layers.some(layer => layer.parent === this && layer.isInside(node))
+    );
+  }
+}
+
+/**
+ * Global stack of the open dismissable layers, such as menus, popovers and dialogs.
+ *
+ * A single set of document listeners dispatches to the layers, so that nested layers
+ * close in order: Escape only reaches the topmost layer, and pointer down or focus
+ * inside a descendant layer does not count as outside its ancestors.
+ */
+@Injectable({ providedIn: 'root' })
+export class ProtoDismissableLayerStack {
+  private readonly document = inject(DOCUMENT);
+  private readonly _layers: ProtoDismissableLayerRef[] = [];
+  private removeListeners: (() => void) | null = null;
+
+  /**
+   * The attached layers, from bottom to top.
+   */
+  get layers(): readonly ProtoDismissableLayerRef[] {
+    return this._layers;
+  }
+
+  /**
+   * Creates a layer. Attach it while it is open.
+   */
+  create(options: ProtoDismissableLayerOptions): ProtoDismissableLayerRef {
+    return new ProtoDismissableLayerRef(this, options);
+  }
+
+  /**
+   * Adds a layer on top of the stack, moving it there when already attached.
+   */
+  attach(layer: ProtoDismissableLayerRef): void {
+    this.detach(layer);
+    this._layers.push(layer);
+    this.removeListeners ??= this.listen();
+  }
+
+  /**
+   * Removes a layer from the stack.
+   */
+  detach(layer: ProtoDismissableLayerRef): void {
+    const index = this._layers.indexOf(layer);
+    if (index !== -1) {
+      this._layers.splice(index, 1);
+    }
+
+    if (this._layers.length === 0) {
+      this.removeListeners?.();
+      this.removeListeners = null;
+    }
+  }
+
+  private listen(): () => void {
+    const onKeyDown = (event: KeyboardEvent) => this.onKeyDown(event);
+    const onPointerDown = (event: PointerEvent) =>
+      this.dispatchOutside(event, layer => layer.options.pointerDownOutside);
+    const onFocusIn = (event: FocusEvent) =>
+      this.dispatchOutside(event, layer => layer.options.focusOutside);
+
+    // Bubble phase, so controls inside the layer can handle Escape first
+    this.document.addEventListener('keydown', onKeyDown);
+    this.document.addEventListener('pointerdown', onPointerDown, { capture: true });
+    this.document.addEventListener('focusin', onFocusIn, { capture: true });
+
+    return () => {
+      this.document.removeEventListener('keydown', onKeyDown);
+      this.document.removeEventListener('pointerdown', onPointerDown, { capture: true });
+      this.document.removeEventListener('focusin', onFocusIn, { capture: true });
+    };
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    const layer = this._layers.at(-1);
+    // A control inside the layer, such as a combobox, already handled it
+    if (event.key !== 'Escape' || !layer || event.defaultPrevented) {
+      return;
+    }
+
+    if (this.dispatch(layer, event, layer.options.escapeKeyDown)) {
+      event.preventDefault();
+    }
+  }
+
+  private dispatchOutside<E extends Event>(
+    event: E,
+    handler: (
+      layer: ProtoDismissableLayerRef,
+    ) => ((event: ProtoDismissEvent<E>) => void) | undefined,
+  ): void {
+    const target = event.target as Node | null;
+    if (!target) {
+      return;
+    }
+
+    // Topmost first, so descendant layers are dismissed before their ancestors
+    for (const layer of [...this._layers].reverse()) {
+      if (layer.isAttached && !layer.isInside(target)) {
+        this.dispatch(layer, event, handler(layer));
+      }
+    }
+  }
+
+  private dispatch<E extends Event>(
+    layer: ProtoDismissableLayerRef,
+    event: E,
+    handler: ((event: ProtoDismissEvent<E>) => void) | undefined,
+  ): boolean {
+    const dismissEvent = new ProtoDismissEvent(event);
+    handler?.(dismissEvent);
+    return !dismissEvent.defaultPrevented && layer.options.dismiss(dismissEvent);
+  }
+}
+
+/**
+ * Token providing the dismissable layer of an element to the layers opened inside it.
+ */
+export const PROTO_DISMISSABLE_LAYER = new InjectionToken<ProtoDismissableLayerRef>(
+  'ProtoDismissableLayer',
+);
+
+// ============================================================================
+// ProtoDismissableLayer Directive
+// ============================================================================
+
+export interface ProtoDismissableLayerConfig {
+  /**
+   * Whether the layer is disabled, and not part of the stack.
+   * @default false
+   */
+  readonly disabled: boolean;
+}
+
+const protoFor = createProto<ProtoDismissableLayer, ProtoDismissableLayerConfig>({
+  disabled: false,
+});
+
+/**
+ * Directive that makes an element a dismissable layer while it is rendered.
+ *
+ * Emits `dismiss` on Escape while it is the topmost layer, and on pointer down or
+ * focus outside of it and of the layers opened inside it. Each reason has its own
+ * output, emitted first, on which `preventDefault()` keeps the layer open.
+ *
+ * @example
+ * ```html
+ * @if (open()) {
+ *   <div
+ *     protoDismissableLayer
+ *     (protoDismissableLayerPointerDownOutside)="$event.preventDefault()"
+ *     (protoDismissableLayerDismiss)="open.set(false)"
+ *   >
+ *     Content
+ *   </div>
+ * }
+ * ```
+ */
+@Directive({
+  selector: '[protoDismissableLayer]',
+  exportAs: 'protoDismissableLayer',
+  providers: [
+    ProtoDismissableLayer.State.provide(),
+    {
+      provide: PROTO_DISMISSABLE_LAYER,
+      useFactory: () => ProtoDismissableLayer.State.inject()().layer,
+    },
+  ],
+})
+export class ProtoDismissableLayer {
+  private static readonly Proto = protoFor(ProtoDismissableLayer);
+  static readonly State = ProtoDismissableLayer.Proto.state;
+  static readonly Config = ProtoDismissableLayer.Proto.config;
+  static readonly Hooks = ProtoDismissableLayer.Proto.hooks;
+
+  private readonly config = ProtoDismissableLayer.Config.inject();
+  private readonly elementRef = injectElementRef<HTMLElement>();
+
+  /**
+   * Whether the layer is disabled, and not part of the stack.
+   */
+  readonly disabled = input<boolean, BooleanInput>(this.config.disabled, {
+    transform: booleanAttribute,
+    alias: 'protoDismissableLayerDisabled',
+  });
+
+  /**
+   * Emitted on Escape while the layer is the topmost one. Cancellable.
+   */
+  readonly escapeKeyDown = output<ProtoDismissEvent<KeyboardEvent>>({
+    alias: 'protoDismissableLayerEscapeKeyDown',
+  });
+
+  /**
+   * Emitted on pointer down outside the layer. Cancellable.
+   */
+  readonly pointerDownOutside = output<ProtoDismissEvent<PointerEvent>>({
+    alias: 'protoDismissableLayerPointerDownOutside',
+  });
+
+  /**
+   * Emitted when focus moves outside the layer. Cancellable.
+   */
+  readonly focusOutside = output<ProtoDismissEvent<FocusEvent>>({
+    alias: 'protoDismissableLayerFocusOutside',
+  });
+
+  /**
+   * Emitted when the layer should be dismissed.
+   */
+  readonly dismiss = output<ProtoDismissEvent>({ alias: 'protoDismissableLayerDismiss' });
+
+  /**
+   * The layer in the dismissable layer stack.
+   */
+  readonly layer = inject(ProtoDismissableLayerStack).create({
+    parent: inject(PROTO_DISMISSABLE_LAYER, { optional: true, skipSelf: true }),
+    contains: node => this.elementRef.nativeElement.contains(node),
+    escapeKeyDown: event => this.escapeKeyDown.emit(event),
+    pointerDownOutside: event => this.pointerDownOutside.emit(event),
+    focusOutside: event => this.focusOutside.emit(event),
+    dismiss: event => {
+      this.dismiss.emit(event);
+      return true;
+    },
+  });
+
+  readonly state = ProtoDismissableLayer.Proto(this);
+
+  constructor() {
+    effect(() => (this.disabled() ? this.layer.detach() : this.layer.attach()));
+    inject(DestroyRef).onDestroy(() => this.layer.detach());
+  }
+}
@@ -5,3 +5,15 @@ export {
   type ProtoAncestorEntry,
   type ProtoAncestry,
 } from './lib/proto-ancestry';
+export { type ProtoEvent, type ProtoEventHandler } from './lib/proto-events';
+export {
+  getLiveProtos,
+  inspectProto,
+  type ProtoInputInspection,
+  type ProtoInspection,
+} from './lib/proto-inspection';
+export {
+  type ProtoInputSnapshot,
+  type ProtoJsonValue,
+  type ProtoSnapshot,
+} from './lib/proto-snapshot';
@@ -0,0 +1,145 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  Directive,
+  input,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { render } from '@testing-library/angular';
+import { createProto } from './proto';
+import type { ProtoEvent } from './proto-events';
+
+interface ListEvents {
+  select: { value: string };
+  close: void;
+}
+
+const protoForList = createProto<ListDir, object, ListEvents>();
+
+@Directive({
+  selector: '[list]',
+  exportAs: 'list',
+  providers: [ListDir.State.provide()],
+})
+class ListDir {
+  private static readonly Proto = protoForList(ListDir);
+  static readonly State = ListDir.Proto.state;
+
+  readonly state = ListDir.Proto(this);
+}
+
+const protoForOption = createProto<OptionDir, object, ListEvents>();
+
+@Directive({
+  selector: '[option]',
+  exportAs: 'option',
+  providers: [OptionDir.State.provide()],
+})
+class OptionDir {
+  private static readonly Proto = protoForOption(OptionDir);
+  static readonly State = OptionDir.Proto.state;
+
+  readonly value = input<string>('', { alias: 'option' });
+  readonly state = OptionDir.Proto(this);
+}
+
+@Component({
+  selector: 'test-events',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [ListDir, OptionDir],
+  template: `
+    <div #outer="list" list>
+      <div #inner="list" list>
+        @if (showOption()) {
+          <span #option="option" option="a"></span>
+        }
+      </div>
+    </div>
+  `,
+})
+class TestEvents {
+  readonly outer = viewChild.required('outer', { read: ListDir });
+  readonly inner = viewChild.required('inner', { read: ListDir });
+  readonly option = viewChild.required('option', { read: OptionDir });
+  readonly showOption = signal(true);
+}
+
+describe('proto events', () => {
+  it('should deliver an event to the source, then to its ancestors nearest first', async () => {
+    const { fixture } = await render(TestEvents);
+    const { outer, inner, option } = fixture.componentInstance;
+    const calls: string[] = [];
+    const sources: ProtoEvent[] = [];
+
+    outer().state.on('select', event => {
+      calls.push(`outer:${event.payload.value}`);
+      sources.push(event);
+    });
+    inner().state.on('select', event => calls.push(`inner:${event.payload.value}`));
+    option().state.on('select', event => calls.push(`option:${event.payload.value}`));
+    option().state.on('close', () => calls.push('option:close'));
+
+    option().state.emit('select', { value: 'a' });
+
+    expect(calls).toEqual(['option:a', 'inner:a', 'outer:a']);
+    expect(sources[0].type).toBe('select');
+    expect(sources[0].source).toBe(option().state);
+  });
+
+  it('should stop at the proto that stops propagation', async () => {
+    const { fixture } = await render(TestEvents);
+    const { outer, inner, option } = fixture.componentInstance;
+    const outerHandler = vi.fn();
+    const innerHandler = vi.fn((event: ProtoEvent) => event.stopPropagation());
+
+    outer().state.on('close', outerHandler);
+    inner().state.on('close', innerHandler);
+    option().state.emit('close', undefined);
+
+    expect(innerHandler).toHaveBeenCalledOnce();
+    expect(outerHandler).not.toHaveBeenCalled();
+  });
+
+  it('should not deliver events to ancestors from descendants', async () => {
+    const { fixture } = await render(TestEvents);
+    const { outer, option } = fixture.componentInstance;
+    const handler = vi.fn();
+
+    option().state.on('close', handler);
+    outer().state.emit('close', undefined);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should stop listening when the returned function is called', async () => {
+    const { fixture } = await render(TestEvents);
+    const { outer, option } = fixture.componentInstance;
+    const handler = vi.fn();
+
+    const off = outer().state.on('select', handler);
+    option().state.emit('select', { value: 'a' });
+    off();
+    option().state.emit('select', { value: 'b' });
+
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should remove the listeners of a destroyed proto', async () => {
+    const { fixture } = await render(TestEvents);
+    const { outer } = fixture.componentInstance;
+    const option = fixture.componentInstance.option();
+    const optionHandler = vi.fn();
+    const outerHandler = vi.fn();
+
+    option.state.on('close', optionHandler);
+    outer().state.on('close', outerHandler);
+
+    fixture.componentInstance.showOption.set(false);
+    fixture.detectChanges();
+    option.state.emit('close', undefined);
+
+    expect(optionHandler).not.toHaveBeenCalled();
+    expect(outerHandler).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,81 @@
+import { DestroyRef } from '@angular/core';
+import type { ProtoState } from './proto';
+
+/**
+ * An event emitted by a proto, delivered to its own listeners and then to those of
+ * its ancestors, nearest first.
+ */
+export interface ProtoEvent<P = unknown> {
+  /** The event name. */
+  readonly type: string;
+  readonly payload: P;
+  /** The proto that emitted the event. */
+  readonly source: ProtoState<object, object>;
+  /** Keeps the event from reaching further ancestors. */
+  stopPropagation(): void;
+}
+
+export type ProtoEventHandler<P = unknown> = (event: ProtoEvent<P>) => void;
+
+type AnyProtoState = ProtoState<object, object>;
+
+const listenersByState = new WeakMap<AnyProtoState, Map<string, Set<ProtoEventHandler>>>();
+
+/**
+ * Listens to an event on a proto until the returned function is called,
+ * or the proto is destroyed.
+ */
+export function onProtoEvent(
+  state: AnyProtoState,
+  type: string,
+  handler: ProtoEventHandler,
+): () => void {
+  let listeners = listenersByState.get(state);
+  if (!listeners) {
+    listeners = new Map();
+    listenersByState.set(state, listeners);
+  }
+
+  let handlers = listeners.get(type);
+  if (!handlers) {
+    handlers = new Set();
+    listeners.set(type, handlers);
+  }
+  handlers.add(handler);
+
+  const removeOnDestroy = state.injector.get(DestroyRef).onDestroy(() => handlers.delete(handler));
+
+  return () => {
+    handlers.delete(handler);
+    removeOnDestroy();
+  };
+}
+
+/**
+ * Emits an event from a proto along its ancestry chain: to its own listeners,
+ * then to those of each ancestor, nearest first, until propagation is stopped.
+ */
+export function emitProtoEvent(state: AnyProtoState, type: string, payload: unknown): void {
+  let stopped = false;
+  const event: ProtoEvent = {
+    type,
+    payload,
+    source: state,
+    stopPropagation: () => {
+      stopped = true;
+    },
+  };
+
+  const targets = [state, ...state.ancestry.allAncestors().map(entry => entry.state)];
+  for (const target of targets) {
+    // Copied, so handlers can remove themselves while the event is dispatched
+    const handlers = [...(listenersByState.get(target)?.get(type) ?? [])];
+    for (const handler of handlers) {
+      handler(event);
+    }
+
+    if (stopped) {
+      return;
+    }
+  }
+}
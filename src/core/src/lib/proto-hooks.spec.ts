@@ -0,0 +1,300 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  Directive,
+  input,
+  runInInjectionContext,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { By } from '@angular/platform-browser';
+import { render } from '@testing-library/angular';
+import { createProto, type ProtoHook } from './proto';
+
+let calls: string[] = [];
+
+const protoForLifecycle = createProto<LifecycleDir>();
+
+function recordPhases(label: string): ProtoHook<LifecycleDir, object> {
+  return {
+    init: () => calls.push(`${label}:init`),
+    destroy: () => calls.push(`${label}:destroy`),
+    inputChange: (key, previous, next) =>
+      calls.push(`${label}:inputChange:${key}:${String(previous)}>${String(next)}`),
+    afterRender: () => calls.push(`${label}:afterRender`),
+  };
+}
+
+@Directive({
+  selector: '[lifecycle]',
+  providers: [
+    LifecycleDir.State.provide(),
+    LifecycleDir.Hooks.provide(() => calls.push('child:fn'), recordPhases('child')),
+  ],
+})
+class LifecycleDir {
+  private static readonly Proto = protoForLifecycle(LifecycleDir);
+  static readonly State = LifecycleDir.Proto.state;
+  static readonly Hooks = LifecycleDir.Proto.hooks;
+
+  readonly label = input<string>('', { alias: 'lifecycle' });
+  readonly disabled = input<boolean>(false);
+  readonly state = LifecycleDir.Proto(this);
+}
+
+@Component({
+  selector: 'test-lifecycle',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [LifecycleDir],
+  providers: [LifecycleDir.Hooks.provide(recordPhases('parent'))],
+  template: `
+    @if (show()) {
+      <div lifecycle="a" [disabled]="disabled()"></div>
+    }
+  `,
+})
+class TestLifecycle {
+  readonly show = signal(true);
+  readonly disabled = signal(false);
+  readonly dir = viewChild(LifecycleDir);
+}
+
+describe('proto lifecycle hooks', () => {
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it('should run init in provide order, parent hooks first', async () => {
+    await render(TestLifecycle);
+
+    expect(calls.filter(call => call.includes('init') || call.includes('fn'))).toEqual([
+      'parent:init',
+      'child:fn',
+      'child:init',
+    ]);
+  });
+
+  it('should run afterRender after every render', async () => {
+    const { fixture } = await render(TestLifecycle);
+    calls = [];
+
+    fixture.componentInstance.disabled.set(true);
+    fixture.detectChanges();
+
+    expect(calls.filter(call => call.includes('afterRender'))).toEqual([
+      'parent:afterRender',
+      'child:afterRender',
+    ]);
+  });
+
+  it('should report input changes but not the initial values', async () => {
+    const { fixture } = await render(TestLifecycle);
+    expect(calls.filter(call => call.includes('inputChange'))).toEqual([]);
+
+    fixture.componentInstance.disabled.set(true);
+    fixture.detectChanges();
+
+    expect(calls.filter(call => call.includes('inputChange'))).toEqual([
+      'parent:inputChange:disabled:false>true',
+      'child:inputChange:disabled:false>true',
+    ]);
+  });
+
+  it('should report controlled input changes', async () => {
+    const { fixture } = await render(TestLifecycle);
+    calls = [];
+
+    fixture.componentInstance.dir()?.state().label.control('b');
+    fixture.detectChanges();
+
+    expect(calls.filter(call => call.includes('inputChange'))).toEqual([
+      'parent:inputChange:label:a>b',
+      'child:inputChange:label:a>b',
+    ]);
+  });
+
+  it('should run destroy when the proto is destroyed', async () => {
+    const { fixture } = await render(TestLifecycle);
+    calls = [];
+
+    fixture.componentInstance.show.set(false);
+    fixture.detectChanges();
+
+    expect(calls.filter(call => call.includes('destroy'))).toEqual([
+      'parent:destroy',
+      'child:destroy',
+    ]);
+  });
+});
+
+const protoForNamed = createProto<NamedDir>();
+
+function recordInit(label: string) {
+  return () => calls.push(label);
+}
+
+@Directive({
+  selector: '[named]',
+  providers: [
+    NamedDir.State.provide(),
+    NamedDir.Hooks.provide(
+      { name: 'base', init: recordInit('base') },
+      { name: 'sync', init: recordInit('sync') },
+      { name: 'extra', init: recordInit('extra') },
+    ),
+  ],
+})
+class NamedDir {
+  private static readonly Proto = protoForNamed(NamedDir);
+  static readonly State = NamedDir.Proto.state;
+  static readonly Hooks = NamedDir.Proto.hooks;
+
+  readonly value = input<string>('');
+  readonly state = NamedDir.Proto(this);
+}
+
+@Component({
+  selector: 'test-named',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [NamedDir],
+  providers: [
+    NamedDir.Hooks.provide(
+      { replace: 'sync', init: recordInit('custom-sync') },
+      { exclude: 'extra' },
+      { name: 'first', before: 'base', init: recordInit('first') },
+      { after: 'base', init: recordInit('after-base') },
+    ),
+  ],
+  template: `
+    <div named></div>
+  `,
+})
+class TestNamed {}
+
+@Component({
+  selector: 'test-duplicate',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [NamedDir],
+  providers: [NamedDir.Hooks.provide({ name: 'base', init: recordInit('other-base') })],
+  template: `
+    <div named></div>
+  `,
+})
+class TestDuplicate {}
+
+@Component({
+  selector: 'test-missing',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [NamedDir],
+  providers: [NamedDir.Hooks.provide({ replace: 'missing', init: recordInit('orphan') })],
+  template: `
+    <div named></div>
+  `,
+})
+class TestMissing {}
+
+@Component({
+  selector: 'test-before-and-after',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [NamedDir],
+  providers: [NamedDir.Hooks.provide({ before: 'sync', after: 'extra', init: recordInit('both') })],
+  template: `
+    <div named></div>
+  `,
+})
+class TestBeforeAndAfter {}
+
+@Component({
+  selector: 'test-exclude-replaced',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [NamedDir],
+  providers: [
+    NamedDir.Hooks.provide(
+      { replace: 'sync', init: recordInit('custom-sync') },
+      { exclude: 'sync' },
+    ),
+  ],
+  template: `
+    <div named></div>
+  `,
+})
+class TestExcludeReplaced {}
+
+describe('named proto hooks', () => {
+  beforeEach(() => {
+    calls = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should replace, exclude and reorder hooks provided closer to the proto', async () => {
+    await render(TestNamed);
+
+    expect(calls).toEqual(['first', 'base', 'after-base', 'custom-sync']);
+  });
+
+  it('should warn about duplicate hook names in dev mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await render(TestDuplicate);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('more than one hook named "base"'));
+    expect(calls).toEqual(['other-base', 'base', 'sync', 'extra']);
+  });
+
+  it('should warn once however often the hooks are injected', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const { fixture } = await render(TestDuplicate);
+    const { injector } = fixture.debugElement.query(By.directive(NamedDir));
+    const first = runInInjectionContext(injector, () => NamedDir.Hooks.inject());
+    const second = runInInjectionContext(injector, () => NamedDir.Hooks.inject());
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(second).toBe(first);
+  });
+
+  it('should exclude the hooks replacing an excluded name, with a warning', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await render(TestExcludeReplaced);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('excludes "sync"'));
+    expect(calls).toEqual(['base', 'extra']);
+  });
+
+  it('should warn and keep a hook whose target is missing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await render(TestMissing);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no hook named "missing"'));
+    expect(calls).toEqual(['orphan', 'base', 'sync', 'extra']);
+  });
+
+  it('should warn and apply only before when a hook sets both before and after', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await render(TestBeforeAndAfter);
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('both before: "sync" and after: "extra"'),
+    );
+    expect(calls).toEqual(['base', 'both', 'sync', 'extra']);
+  });
+
+  it('should inject the resolved hooks, with replacing hooks taking the replaced name', async () => {
+    const { fixture } = await render(TestNamed);
+    const { injector } = fixture.debugElement.query(By.directive(NamedDir));
+    const hooks = runInInjectionContext(injector, () => NamedDir.Hooks.inject());
+
+    expect(hooks).toMatchObject([
+      { name: 'first' },
+      { name: 'base' },
+      { after: 'base' },
+      { replace: 'sync' },
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { isInputSignal } from '@angular-proto/core/utils';
+import { afterEveryRender, DestroyRef, effect, inject, isDevMode, untracked } from '@angular/core';
+import type { ProtoHook, ProtoLifecycleHooks, ProtoState } from './proto';
+
+/**
+ * Hooks resolved from a provided list, with the dev-mode warnings found while resolving.
+ */
+interface ResolvedProtoHooks {
+  readonly hooks: ProtoHook<object, object, object>[];
+  warnings: readonly string[];
+}
+
+/** By provided list, so a list is resolved once however often it is injected. */
+const resolvedHooks = new WeakMap<readonly unknown[], ResolvedProtoHooks>();
+
+/**
+ * Applies the `exclude`, `replace`, `before` and `after` controls of named hooks,
+ * in that order. A hook setting both `before` and `after` is moved before. Hooks keep the order they were provided in otherwise, so a hook
+ * can replace or exclude a hook provided closer to the proto.
+ *
+ * Exclusion takes precedence: excluding a name also removes the hooks replacing it.
+ * Entries that only exclude are not hooks, and are left out.
+ *
+ * Each list is resolved once. With `warn`, the problems found while resolving it,
+ * such as duplicate names, are logged in dev mode, once.
+ */
+export function resolveProtoHooks<T extends object, C extends object, E extends object>(
+  hooks: readonly ProtoHook<T, C, E>[],
+  protoName: string,
+  { warn = false }: { warn?: boolean } = {},
+): ProtoHook<T, C, E>[] {
+  let resolved = resolvedHooks.get(hooks);
+  if (!resolved) {
+    const warnings: string[] = [];
+    resolved = {
+      hooks: applyHookControls(hooks, protoName, warnings) as ProtoHook<object, object, object>[],
+      warnings,
+    };
+    resolvedHooks.set(hooks, resolved);
+  }
+
+  if (warn && isDevMode()) {
+    for (const warning of resolved.warnings) {
+      console.warn(warning);
+    }
+    resolved.warnings = [];
+  }
+
+  return resolved.hooks as ProtoHook<T, C, E>[];
+}
+
+function applyHookControls<T extends object, C extends object, E extends object>(
+  hooks: readonly ProtoHook<T, C, E>[],
+  protoName: string,
+  warnings: string[],
+): ProtoHook<T, C, E>[] {
+  const names = hooks
+    .map(hook => (typeof hook === 'function' || hook.replace === hook.name ? undefined : hook.name))
+    .filter((hookName): hookName is string => hookName !== undefined);
+  for (const duplicate of new Set(names.filter((hookName, i) => names.indexOf(hookName) !== i))) {
+    warnings.push(
+      `[angular-proto] ${protoName} has more than one hook named "${duplicate}". ` +
+        `Use replace: "${duplicate}" to override the inherited hook.`,
+    );
+  }
+
+  const excluded = new Set(
+    hooks.flatMap(hook => (typeof hook === 'function' ? [] : [hook.exclude ?? []].flat())),
+  );
+  const resolved = hooks.filter(hook => {
+    if (typeof hook === 'function') {
+      return true;
+    }
+
+    const hookName = getHookName(hook);
+    if (hookName !== undefined && excluded.has(hookName)) {
+      if (hook.replace !== undefined) {
+        warnings.push(
+          `[angular-proto] ${protoName} excludes "${hookName}", ` +
+            `which also removes the hook replacing it.`,
+        );
+      }
+      return false;
+    }
+
+    // Entries that only exclude are not hooks
+    return hook.exclude === undefined || hasPhase(hook);
+  });
+
+  for (const hook of [...resolved]) {
+    if (typeof hook === 'function' || hook.replace === undefined) {
+      continue;
+    }
+
+    const target = resolved.find(other => other !== hook && getHookName(other) === hook.replace);
+    if (!target) {
+      warnings.push(missingHookWarning(protoName, 'replace', hook.replace));
+      continue;
+    }
+
+    resolved.splice(resolved.indexOf(hook), 1);
+    resolved.splice(resolved.indexOf(target), 1, hook);
+  }
+
+  for (const hook of [...resolved]) {
+    const anchorName = typeof hook === 'function' ? undefined : (hook.before ?? hook.after);
+    if (typeof hook === 'function' || anchorName === undefined) {
+      continue;
+    }
+
+    if (hook.before !== undefined && hook.after !== undefined) {
+      warnings.push(
+        `[angular-proto] ${protoName} has a hook both before: "${hook.before}" ` +
+          `and after: "${hook.after}". Only before is applied.`,
+      );
+    }
+
+    const anchor = resolved.find(other => other !== hook && getHookName(other) === anchorName);
+    if (!anchor) {
+      warnings.push(
+        missingHookWarning(protoName, hook.before === undefined ? 'after' : 'before', anchorName),
+      );
+      continue;
+    }
+
+    resolved.splice(resolved.indexOf(hook), 1);
+    resolved.splice(resolved.indexOf(anchor) + (hook.before === undefined ? 1 : 0), 0, hook);
+  }
+
+  return resolved;
+}
+
+/**
+ * Runs the hooks of a proto. Must be called in its injection context.
+ *
+ * Every phase calls the hooks in the order they are resolved in, so hooks from
+ * ancestor injectors run before those provided closer to the proto unless moved.
+ * A function hook is the `init` phase only.
+ */
+export function runProtoHooks<T extends object, C extends object, E extends object>(
+  proto: ProtoState<T, C, E>,
+  hooks: readonly ProtoHook<T, C, E>[],
+): void {
+  const lifecycles = hooks.map(
+    (hook): ProtoLifecycleHooks<T, C, E> => (typeof hook === 'function' ? { init: hook } : hook),
+  );
+
+  for (const lifecycle of lifecycles) {
+    lifecycle.init?.(proto);
+  }
+
+  const destroys = lifecycles.filter(lifecycle => lifecycle.destroy);
+  if (destroys.length) {
+    inject(DestroyRef).onDestroy(() => {
+      for (const lifecycle of destroys) {
+        lifecycle.destroy?.(proto);
+      }
+    });
+  }
+
+  const inputChanges = lifecycles.filter(lifecycle => lifecycle.inputChange);
+  if (inputChanges.length) {
+    watchInputs(proto, (key, previous, next) => {
+      for (const lifecycle of inputChanges) {
+        lifecycle.inputChange?.(key, previous, next, proto);
+      }
+    });
+  }
+
+  const afterRenders = lifecycles.filter(lifecycle => lifecycle.afterRender);
+  if (afterRenders.length) {
+    afterEveryRender(() => {
+      for (const lifecycle of afterRenders) {
+        lifecycle.afterRender?.(proto);
+      }
+    });
+  }
+}
+
+/**
+ * Calls `onChange` for every input whose value changed since the last run,
+ * in declaration order. The values bound on the first run are not reported.
+ */
+function watchInputs<T extends object>(
+  proto: ProtoState<T, object, object>,
+  onChange: (key: keyof T & string, previous: unknown, next: unknown) => void,
+): void {
+  const instance = untracked(proto) as Record<string, unknown>;
+  const keys = Object.keys(instance).filter(key => isInputSignal(instance[key]));
+  let values: Map<string, unknown> | null = null;
+
+  effect(() => {
+    const next = new Map(keys.map(key => [key, (instance[key] as () => unknown)()]));
+    const previous = values;
+    values = next;
+    if (!previous) {
+      return;
+    }
+
+    untracked(() => {
+      for (const [key, value] of next) {
+        if (!Object.is(previous.get(key), value)) {
+          onChange(key as keyof T & string, previous.get(key), value);
+        }
+      }
+    });
+  });
+}
+
+/**
+ * The name other hooks refer to a hook by. A replacing hook takes the replaced name.
+ */
+function getHookName<T extends object, C extends object, E extends object>(
+  hook: ProtoHook<T, C, E>,
+): string | undefined {
+  return typeof hook === 'function' ? undefined : (hook.name ?? hook.replace);
+}
+
+function hasPhase(hook: ProtoLifecycleHooks<object, object, object>): boolean {
+  return !!(hook.init ?? hook.destroy ?? hook.inputChange ?? hook.afterRender);
+}
+
+function missingHookWarning(protoName: string, control: string, hookName: string): string {
+  return `[angular-proto] ${protoName} has no hook named "${hookName}" for ${control}: "${hookName}".`;
+}
@@ -0,0 +1,111 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  Directive,
+  input,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { render } from '@testing-library/angular';
+import { createProto } from './proto';
+import { getLiveProtos, inspectProto } from './proto-inspection';
+
+interface InspectedConfig {
+  size: string;
+}
+
+const protoForInspected = createProto<InspectedDir, InspectedConfig>({ size: 'medium' });
+
+function markInspected(): void {
+  // Named, so it can be told apart in the inspection
+}
+
+@Directive({
+  selector: '[inspected]',
+  exportAs: 'inspected',
+  providers: [InspectedDir.State.provide(), InspectedDir.Hooks.provide(markInspected)],
+})
+class InspectedDir {
+  private static readonly Proto = protoForInspected(InspectedDir);
+  static readonly State = InspectedDir.Proto.state;
+  static readonly Config = InspectedDir.Proto.config;
+  static readonly Hooks = InspectedDir.Proto.hooks;
+
+  readonly label = input<string>('none', { alias: 'inspected' });
+  readonly disabled = input<boolean>(false);
+  readonly state = InspectedDir.Proto(this);
+}
+
+@Component({
+  selector: 'test-inspection',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [InspectedDir],
+  providers: [InspectedDir.Config.provide({ size: 'large' })],
+  template: `
+    @if (visible()) {
+      <section #outer="inspected" inspected="outer">
+        <span #inner="inspected" inspected="inner" [disabled]="innerDisabled()"></span>
+      </section>
+    }
+  `,
+})
+class TestInspection {
+  readonly outer = viewChild.required('outer', { read: InspectedDir });
+  readonly inner = viewChild.required('inner', { read: InspectedDir });
+  readonly visible = signal(true);
+  readonly innerDisabled = signal(false);
+}
+
+describe('proto inspection', () => {
+  it('should list the live protos until they are destroyed', async () => {
+    const { fixture } = await render(TestInspection);
+    const { outer, inner } = fixture.componentInstance;
+
+    expect(getLiveProtos()()).toEqual([outer().state, inner().state]);
+
+    fixture.componentInstance.visible.set(false);
+    fixture.detectChanges();
+
+    expect(getLiveProtos()()).toEqual([]);
+  });
+
+  it('should inspect the identity, element, config and hooks', async () => {
+    const { fixture } = await render(TestInspection);
+    const { outer, inner } = fixture.componentInstance;
+
+    const inspection = inspectProto(inner().state);
+
+    expect(inspection.protoId).toBe(inner().state.protoId);
+    expect(inspection.protoName).toMatch(/^InspectedDir/);
+    expect(inspection.element.tagName).toBe('SPAN');
+    expect(inspection.config).toEqual({ size: 'large' });
+    expect(inspection.parentId).toBe(outer().state.protoId);
+    expect(inspectProto(outer().state)).toMatchObject({ hooks: [markInspected], parentId: null });
+  });
+
+  it('should tell template-driven inputs from controlled inputs', async () => {
+    const { fixture } = await render(TestInspection);
+    const { inner, innerDisabled } = fixture.componentInstance;
+
+    innerDisabled.set(true);
+    fixture.detectChanges();
+    inner().state().label.control('controlled');
+
+    expect(inspectProto(inner().state).inputs).toEqual([
+      {
+        name: 'label',
+        value: 'controlled',
+        templateValue: 'inner',
+        controlValue: 'controlled',
+        isControlled: true,
+      },
+      {
+        name: 'disabled',
+        value: true,
+        templateValue: true,
+        controlValue: false,
+        isControlled: false,
+      },
+    ]);
+  });
+});
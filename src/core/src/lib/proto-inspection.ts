@@ -0,0 +1,95 @@
+import { isControlledInput, isInputSignal } from '@angular-proto/core/utils';
+import { DestroyRef, signal, Signal } from '@angular/core';
+import type { ProtoHook, ProtoState } from './proto';
+
+/**
+ * Snapshot of an input of a live proto.
+ */
+export interface ProtoInputInspection {
+  /** The property name on the directive, not its template alias. */
+  readonly name: string;
+  /** The current value. */
+  readonly value: unknown;
+  /** The last value bound in the template. */
+  readonly templateValue: unknown;
+  /** The last value set with `control()`. */
+  readonly controlValue: unknown;
+  /** Whether the value is controlled with `control()` rather than driven by the template. */
+  readonly isControlled: boolean;
+}
+
+/**
+ * Snapshot of a live proto, as shown by the devtools inspector.
+ */
+export interface ProtoInspection {
+  readonly protoId: string;
+  readonly protoName: string;
+  /** The host element of the directive. */
+  readonly element: HTMLElement;
+  /** The resolved config, after merging all contributions. */
+  readonly config: object;
+  /** The hooks run when the proto was initialized, in order. */
+  readonly hooks: readonly ProtoHook<object, object>[];
+  /** The inputs of the directive, in declaration order. */
+  readonly inputs: readonly ProtoInputInspection[];
+  /** The id of the nearest ancestor proto of any type, if any. */
+  readonly parentId: string | null;
+}
+
+type AnyProtoState = ProtoState<object, object>;
+
+const liveProtos = signal<readonly AnyProtoState[]>([]);
+const protoHooks = new WeakMap<AnyProtoState, readonly ProtoHook<object, object>[]>();
+
+/**
+ * Records an initialized proto until it is destroyed, so the inspector can list it.
+ * Only called in dev mode.
+ */
+export function trackProto(
+  state: AnyProtoState,
+  hooks: readonly ProtoHook<object, object>[],
+  destroyRef: DestroyRef,
+): void {
+  protoHooks.set(state, hooks);
+  liveProtos.update(protos => [...protos, state]);
+  destroyRef.onDestroy(() => liveProtos.update(protos => protos.filter(p => p !== state)));
+}
+
+/**
+ * All initialized protos that are not destroyed yet, in creation order.
+ * Only tracked in dev mode, so this is always empty in production.
+ */
+export function getLiveProtos(): Signal<readonly AnyProtoState[]> {
+  return liveProtos.asReadonly();
+}
+
+/**
+ * Takes a snapshot of a proto: its identity, host element, resolved config,
+ * hooks and current input values. Called in a reactive context, it tracks the inputs.
+ */
+export function inspectProto(state: AnyProtoState): ProtoInspection {
+  const instance = state() as Record<string, unknown> | null;
+  const inputs: ProtoInputInspection[] = [];
+
+  for (const [name, value] of Object.entries(instance ?? {})) {
+    if (isInputSignal(value) && isControlledInput(value)) {
+      inputs.push({
+        name,
+        value: value(),
+        templateValue: value.templateValue(),
+        controlValue: value.controlValue(),
+        isControlled: value.isControlled(),
+      });
+    }
+  }
+
+  return {
+    protoId: state.protoId,
+    protoName: state.protoName,
+    element: state.elementRef.nativeElement,
+    config: state.config,
+    hooks: protoHooks.get(state) ?? [],
+    inputs,
+    parentId: state.ancestry.allAncestors()[0]?.state.protoId ?? null,
+  };
+}
@@ -0,0 +1,166 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  Directive,
+  input,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { render } from '@testing-library/angular';
+import { createProto } from './proto';
+import type { ProtoSnapshot } from './proto-snapshot';
+
+interface GroupConfig {
+  orientation: string;
+  onChange: () => void;
+}
+
+const protoForGroup = createProto<GroupDir, GroupConfig>({
+  orientation: 'horizontal',
+  onChange: () => undefined,
+});
+
+@Directive({
+  selector: '[group]',
+  exportAs: 'group',
+  providers: [GroupDir.State.provide()],
+})
+class GroupDir {
+  private static readonly Proto = protoForGroup(GroupDir);
+  static readonly State = GroupDir.Proto.state;
+  static readonly Config = GroupDir.Proto.config;
+
+  readonly value = input<string[]>([], { alias: 'group' });
+  readonly state = GroupDir.Proto(this);
+}
+
+const protoForItem = createProto<ItemDir>();
+
+@Directive({
+  selector: '[item]',
+  exportAs: 'item',
+  providers: [ItemDir.State.provide()],
+})
+class ItemDir {
+  private static readonly Proto = protoForItem(ItemDir);
+  static readonly State = ItemDir.Proto.state;
+
+  readonly label = input<string>('', { alias: 'item' });
+  readonly disabled = input<boolean>(false);
+  readonly boundary = input<HTMLElement | null>(null);
+  readonly state = ItemDir.Proto(this);
+}
+
+@Component({
+  selector: 'test-snapshot',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [GroupDir, ItemDir],
+  template: `
+    <div #boundary #group="group" [group]="['a']">
+      <span #first="item" item="first" [boundary]="boundary" [disabled]="firstDisabled()"></span>
+      <span #second="item" item="second"></span>
+    </div>
+  `,
+})
+class TestSnapshot {
+  readonly group = viewChild.required('group', { read: GroupDir });
+  readonly first = viewChild.required('first', { read: ItemDir });
+  readonly second = viewChild.required('second', { read: ItemDir });
+  readonly firstDisabled = signal(false);
+}
+
+describe('proto snapshots', () => {
+  it('should capture the inputs, controlled flags and config of a subtree', async () => {
+    const { fixture } = await render(TestSnapshot);
+    const { group, second } = fixture.componentInstance;
+
+    second().state().disabled.control(true);
+
+    expect(group().state.snapshot()).toEqual({
+      protoName: expect.stringMatching(/^GroupDir/),
+      inputs: { value: { value: ['a'], isControlled: false } },
+      config: { orientation: 'horizontal' },
+      children: [
+        {
+          protoName: expect.stringMatching(/^ItemDir/),
+          inputs: {
+            label: { value: 'first', isControlled: false },
+            disabled: { value: false, isControlled: false },
+          },
+          config: {},
+          children: [],
+        },
+        {
+          protoName: expect.stringMatching(/^ItemDir/),
+          inputs: {
+            label: { value: 'second', isControlled: false },
+            disabled: { value: true, isControlled: true },
+            boundary: { value: null, isControlled: false },
+          },
+          config: {},
+          children: [],
+        },
+      ],
+    } satisfies ProtoSnapshot);
+  });
+
+  it('should leave out inputs that are not JSON', async () => {
+    const { fixture } = await render(TestSnapshot);
+    const { first } = fixture.componentInstance;
+    fixture.detectChanges();
+
+    expect(first().boundary()).toBeInstanceOf(HTMLElement);
+    expect(first().state.snapshot().inputs).not.toHaveProperty('boundary');
+  });
+
+  it('should restore controlled inputs and reset template-driven ones', async () => {
+    const { fixture } = await render(TestSnapshot);
+    const { group, first, second, firstDisabled } = fixture.componentInstance;
+    first().state().label.control('restored');
+    const snapshot = JSON.parse(JSON.stringify(group().state.snapshot())) as ProtoSnapshot;
+
+    first().state().label.control('changed');
+    second().state().label.control('changed');
+    firstDisabled.set(true);
+    fixture.detectChanges();
+
+    group().state.restore(snapshot);
+
+    expect(first().state().label()).toBe('restored');
+    expect(first().state().label.isControlled()).toBe(true);
+    expect(first().state().disabled()).toBe(true);
+    expect(first().state().disabled.isControlled()).toBe(false);
+    expect(second().state().label()).toBe('second');
+    expect(second().state().label.isControlled()).toBe(false);
+  });
+
+  it('should keep template bindings flowing after a restore', async () => {
+    const { fixture } = await render(TestSnapshot);
+    const { group, first, firstDisabled } = fixture.componentInstance;
+    const snapshot = group().state.snapshot();
+
+    first().state().disabled.control(true);
+    group().state.restore(snapshot);
+    expect(first().state().disabled()).toBe(false);
+
+    firstDisabled.set(true);
+    fixture.detectChanges();
+
+    expect(first().state().disabled()).toBe(true);
+  });
+
+  it('should not restore a snapshot of another proto', async () => {
+    const { fixture } = await render(TestSnapshot);
+    const { group, first, second } = fixture.componentInstance;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    first().state().label.control('controlled');
+
+    second().state.restore(first().state.snapshot());
+    group().state.restore(first().state.snapshot());
+
+    expect(second().state().label()).toBe('controlled');
+    expect(group().state().value()).toEqual(['a']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,153 @@
+import { isControlledInput, isInputSignal, isObject } from '@angular-proto/core/utils';
+import { isDevMode, untracked } from '@angular/core';
+import type { ProtoState } from './proto';
+
+/**
+ * A value that survives `JSON.stringify` and `JSON.parse` unchanged.
+ */
+export type ProtoJsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ProtoJsonValue[]
+  | { [key: string]: ProtoJsonValue };
+
+/**
+ * Snapshot of an input of a proto.
+ */
+export interface ProtoInputSnapshot {
+  /** The current value. */
+  readonly value: ProtoJsonValue;
+  /** Whether the value is controlled with `control()` rather than driven by the template. */
+  readonly isControlled: boolean;
+}
+
+/**
+ * Plain JSON snapshot of a proto and the protos nested in it.
+ *
+ * Inputs and config entries whose values are not JSON, such as elements or
+ * directive instances, are left out.
+ */
+export interface ProtoSnapshot {
+  readonly protoName: string;
+  /** The inputs by their property name on the directive. */
+  readonly inputs: Readonly<Record<string, ProtoInputSnapshot>>;
+  /** The resolved config, for reference. It is not restored. */
+  readonly config: ProtoJsonValue;
+  /** The protos whose nearest ancestor proto is this one, in creation order. */
+  readonly children: readonly ProtoSnapshot[];
+}
+
+type AnyProtoState = ProtoState<object, object>;
+
+/**
+ * Captures a proto and its descendants as plain JSON.
+ */
+export function createProtoSnapshot(state: AnyProtoState): ProtoSnapshot {
+  return untracked(() => {
+    const inputs: Record<string, ProtoInputSnapshot> = {};
+    for (const [name, input] of Object.entries(state() ?? {})) {
+      if (!isInputSignal(input) || !isControlledInput(input)) {
+        continue;
+      }
+
+      const value = toJsonValue(input());
+      if (value !== undefined) {
+        inputs[name] = { value, isControlled: input.isControlled() };
+      }
+    }
+
+    return {
+      protoName: state.protoName,
+      inputs,
+      config: toJsonValue(state.config) ?? {},
+      children: directChildren(state).map(child => createProtoSnapshot(child)),
+    };
+  });
+}
+
+/**
+ * Restores the inputs of a proto and its descendants from a snapshot. Inputs that
+ * were controlled are controlled again with their value, the others are reset to
+ * follow their template binding. Descendants are matched by position among the children of
+ * their parent, and skipped when their name does not match.
+ */
+export function restoreProtoSnapshot(state: AnyProtoState, snapshot: ProtoSnapshot): void {
+  if (state.protoName !== snapshot.protoName) {
+    if (isDevMode()) {
+      console.warn(
+        `[angular-proto] Cannot restore a ${snapshot.protoName} snapshot into ${state.protoName}.`,
+      );
+    }
+    return;
+  }
+
+  untracked(() => {
+    const instance = (state() ?? {}) as Record<string, unknown>;
+    for (const [name, { value, isControlled }] of Object.entries(snapshot.inputs)) {
+      const input = instance[name];
+      if (!isInputSignal(input) || !isControlledInput(input)) {
+        continue;
+      }
+
+      // Template-driven inputs go back to following their binding
+      if (isControlled) {
+        input.control(value);
+      } else {
+        input.reset();
+      }
+    }
+
+    const children = directChildren(state);
+    snapshot.children.forEach((childSnapshot, index) => {
+      const child = children[index];
+      if (child) {
+        restoreProtoSnapshot(child, childSnapshot);
+      }
+    });
+  });
+}
+
+/**
+ * The descendants whose nearest ancestor proto is the given one.
+ */
+function directChildren(state: AnyProtoState): AnyProtoState[] {
+  return state.ancestry
+    .allChildren()()
+    .filter(entry => entry.state.ancestry.allAncestors()[0]?.state === state)
+    .map(entry => entry.state);
+}
+
+/**
+ * Converts a value to JSON, leaving out what JSON cannot represent.
+ * Returns undefined when the value itself cannot be represented.
+ */
+function toJsonValue(value: unknown): ProtoJsonValue | undefined {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(toJsonValue);
+    return items.every(item => item !== undefined) ? (items as ProtoJsonValue[]) : undefined;
+  }
+
+  // Only plain objects, not elements, signals or directive instances
+  if (isObject(value) && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+    const result: Record<string, ProtoJsonValue> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const json = toJsonValue(entry);
+      if (json !== undefined) {
+        result[key] = json;
+      }
+    }
+    return result;
+  }
+
+  return undefined;
+}
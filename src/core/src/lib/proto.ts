@@ -34,6 +34,10 @@ import {
   ProtoAncestorEntry,
   ProtoAncestry,
 } from './proto-ancestry';
+import { emitProtoEvent, onProtoEvent, ProtoEventHandler } from './proto-events';
+import { resolveProtoHooks, runProtoHooks } from './proto-hooks';
+import { trackProto } from './proto-inspection';
+import { createProtoSnapshot, ProtoSnapshot, restoreProtoSnapshot } from './proto-snapshot';
 
 /**
  * Internal type representing the writable state before it's made public.
@@ -42,7 +46,8 @@ import {
 type InternalProtoState<
   T extends object,
   C extends object,
-> = WritableSignal<ProtoDirective<T> | null> & ProtoStateProps<T, C>;
+  E extends object,
+> = WritableSignal<ProtoDirective<T> | null> & ProtoStateProps<T, C, E>;
 
 export type ProtoDirective<T extends object> = {
   [K in keyof T]: T[K] extends InputSignalWithTransform<infer U, infer TransformT>
@@ -55,11 +60,20 @@ export type ProtoDirective<T extends object> = {
 const PROTO_STATE_SIGNAL: unique symbol = Symbol('PROTO_STATE_SIGNAL');
 const ALL_CHILDREN: unique symbol = Symbol('ALL_CHILDREN');
 
-export function isProtoStateSignal(value: unknown): value is ProtoStateProps<object, object> {
+export function isProtoStateSignal(value: unknown): value is ProtoStateProps {
   return isObject(value) && value[PROTO_STATE_SIGNAL] === true;
 }
 
-export interface ProtoStateProps<T extends object = object, C extends object = object> {
+/**
+ * The events of a proto that has none declared.
+ */
+export type ProtoNoEvents = Record<never, never>;
+
+export interface ProtoStateProps<
+  T extends object = object,
+  C extends object = object,
+  E extends object = ProtoNoEvents,
+> {
   readonly [PROTO_STATE_SIGNAL]: true;
   readonly protoId: string;
   readonly protoName: string;
@@ -67,20 +81,78 @@ export interface ProtoStateProps<T extends object = object, C extends object = o
   readonly ancestry: ProtoAncestry<T, C>;
   readonly injector: Injector;
   readonly elementRef: ElementRef<HTMLElement>;
+  /** Captures the inputs and config of this proto and its descendants as plain JSON. */
+  snapshot(): ProtoSnapshot;
+  /** Restores the inputs of this proto and its descendants, controlled or following the template. */
+  restore(snapshot: ProtoSnapshot): void;
+  /** Emits an event to the listeners of this proto, then of its ancestors, nearest first. */
+  emit<K extends keyof E & string>(type: K, payload: E[K]): void;
+  /** Listens to an event until the returned function is called or this proto is destroyed. */
+  on<K extends keyof E & string>(type: K, handler: ProtoEventHandler<E[K]>): () => void;
 }
 
-export type ProtoState<T extends object, C extends object> = Signal<ProtoDirective<T>> &
-  ProtoStateProps<T, C>;
+export type ProtoState<
+  T extends object,
+  C extends object,
+  E extends object = ProtoNoEvents,
+> = Signal<ProtoDirective<T>> & ProtoStateProps<T, C, E>;
+
+/**
+ * Phases of a proto hook. Each phase runs for every hook in the order the hooks
+ * were provided, parent injectors first, unless a hook is moved with `before` or `after`.
+ */
+export interface ProtoLifecycleHooks<
+  T extends object,
+  C extends object,
+  E extends object = ProtoNoEvents,
+> {
+  /**
+   * Identifies the hook, so other hooks can be ordered around, replace or exclude it.
+   * Name the hooks a primitive provides, so design systems wrapping it can replace them.
+   */
+  readonly name?: string;
+  /** Runs this hook right before the hook with this name. */
+  readonly before?: string;
+  /** Runs this hook right after the hook with this name. Ignored when `before` is set. */
+  readonly after?: string;
+  /** Takes the place of the hook with this name, and its name unless `name` is set. */
+  readonly replace?: string;
+  /**
+   * Removes the hooks with these names, wherever they are provided, including the hooks
+   * replacing them. An entry with only `exclude` is not a hook itself.
+   */
+  readonly exclude?: string | readonly string[];
+  /** Runs once in the injection context, when the proto is initialized. */
+  init?(proto: ProtoState<T, C, E>): void;
+  /** Runs when the proto is destroyed. */
+  destroy?(proto: ProtoState<T, C, E>): void;
+  /** Runs when the value of an input changes, not for its initial value. */
+  inputChange?(
+    key: keyof T & string,
+    previous: unknown,
+    next: unknown,
+    proto: ProtoState<T, C, E>,
+  ): void;
+  /** Runs after every render of the application, in the browser only. */
+  afterRender?(proto: ProtoState<T, C, E>): void;
+}
 
-export type ProtoHook<T extends object, C extends object> = (proto: ProtoState<T, C>) => void;
+/**
+ * A hook is either run once when the proto is initialized, or has lifecycle phases.
+ */
+export type ProtoHook<T extends object, C extends object, E extends object = ProtoNoEvents> =
+  | ((proto: ProtoState<T, C, E>) => void)
+  | ProtoLifecycleHooks<T, C, E>;
 
-export type Proto<T extends object, C extends object> = ((instance: T) => ProtoState<T, C>) &
+export type Proto<T extends object, C extends object, E extends object = ProtoNoEvents> = ((
+  instance: T,
+) => ProtoState<T, C, E>) &
   OmitNever<{
     state: {
-      readonly token: InjectionToken<ProtoState<T, C>>;
+      readonly token: InjectionToken<ProtoState<T, C, E>>;
       provide(): Provider;
-      inject(options?: InjectOptions & { optional?: false }): ProtoState<T, C>;
-      inject(options: InjectOptions & { optional: true }): ProtoState<T, C> | null;
+      inject(options?: InjectOptions & { optional?: false }): ProtoState<T, C, E>;
+      inject(options: InjectOptions & { optional: true }): ProtoState<T, C, E> | null;
     };
 
     config: Record<PropertyKey, never> extends Required<C>
@@ -92,32 +164,44 @@ export type Proto<T extends object, C extends object> = ((instance: T) => ProtoS
         };
 
     hooks: {
-      readonly token: InjectionToken<ProtoHook<T, C>[]>;
-      provide(...hooks: ProtoHook<T, C>[]): Provider;
-      inject(options?: Omit<InjectOptions, 'optional'>): ProtoHook<T, C>[];
+      readonly token: InjectionToken<ProtoHook<T, C, E>[]>;
+      provide(...hooks: ProtoHook<T, C, E>[]): Provider;
+      inject(options?: Omit<InjectOptions, 'optional'>): ProtoHook<T, C, E>[];
     };
   }>;
 
-export type ProtoFactoryFn<T extends object, C extends object = object> = (
-  type: Type<T>,
-) => Proto<T, C>;
+export type ProtoFactoryFn<
+  T extends object,
+  C extends object = object,
+  E extends object = ProtoNoEvents,
+> = (type: Type<T>) => Proto<T, C, E>;
 
-export function createProto<T extends object, C extends object = object>(
+/**
+ * Creates the proto factory of a directive.
+ *
+ * `C` is the config, `E` maps the names of the events emitted along the ancestry
+ * chain to their payloads. Protos that exchange events declare the same event map.
+ */
+export function createProto<
+  T extends object,
+  C extends object = object,
+  E extends object = ProtoNoEvents,
+>(
   ...configArgs: NonNullable<DeepPartial<C>> extends C
     ? [defaultConfig?: MaybeFn<C>]
     : [defaultConfig: MaybeFn<C>]
-): ProtoFactoryFn<T, C> {
-  return (type: Type<T>): Proto<T, C> => {
+): ProtoFactoryFn<T, C, E> {
+  return (type: Type<T>): Proto<T, C, E> => {
     const name = type.name;
     const [defaultConfig] = configArgs;
 
     /** Use for managing writable state (can be null before initialization) */
-    const internalProtoToken = new InjectionToken<InternalProtoState<T, C>>(
+    const internalProtoToken = new InjectionToken<InternalProtoState<T, C, E>>(
       `ProtoInternalState:${name}`,
     );
 
     /** Use for exposing immutable state and ancestry lookups */
-    const publicToken = new InjectionToken<ProtoState<T, C>>(`ProtoToken:${name}`);
+    const publicToken = new InjectionToken<ProtoState<T, C, E>>(`ProtoToken:${name}`);
 
     /** Use for proto configuration */
     const configToken = new InjectionToken<C>(`ProtoConfig:${name}`);
@@ -128,13 +212,13 @@ export function createProto<T extends object, C extends object = object>(
     );
 
     /** Use for proto hooks */
-    const hooksToken = new InjectionToken<ProtoHook<T, C>[]>(`ProtoHooks:${name}`);
+    const hooksToken = new InjectionToken<ProtoHook<T, C, E>[]>(`ProtoHooks:${name}`);
 
     function provideState(): Provider {
       return [
         {
           provide: internalProtoToken,
-          useFactory: (): InternalProtoState<T, C> => {
+          useFactory: (): InternalProtoState<T, C, E> => {
             // Initialize with null - will be set by initState()
             // The null state indicates the proto is not yet initialized
             const source = signal<ProtoDirective<T> | null>(null);
@@ -142,7 +226,7 @@ export function createProto<T extends object, C extends object = object>(
 
             const children = signal<ProtoAncestorEntry[]>([]);
 
-            const props: ProtoStateProps<T, C> = {
+            const props: ProtoStateProps<T, C, E> = {
               [PROTO_STATE_SIGNAL]: true,
               protoId: uniqueId('proto'),
               protoName: name,
@@ -150,6 +234,22 @@ export function createProto<T extends object, C extends object = object>(
               injector: inject(Injector),
               elementRef: injectElementRef<HTMLElement>(),
               ancestry: createProtoAncestry(chain, publicToken, children.asReadonly()),
+              snapshot: () =>
+                createProtoSnapshot(protoState as unknown as ProtoState<object, object>),
+              restore: snapshot =>
+                restoreProtoSnapshot(protoState as unknown as ProtoState<object, object>, snapshot),
+              emit: (eventType, payload) =>
+                emitProtoEvent(
+                  protoState as unknown as ProtoState<object, object>,
+                  eventType,
+                  payload,
+                ),
+              on: (eventType, handler) =>
+                onProtoEvent(
+                  protoState as unknown as ProtoState<object, object>,
+                  eventType,
+                  handler as ProtoEventHandler,
+                ),
             };
 
             (props as unknown as Record<symbol, unknown>)[ALL_CHILDREN] = children;
@@ -178,7 +278,7 @@ export function createProto<T extends object, C extends object = object>(
         },
         {
           provide: publicToken,
-          useFactory: (): ProtoState<T, C> => {
+          useFactory: (): ProtoState<T, C, E> => {
             const proto = inject(internalProtoToken);
 
             // Forbid mutation on the public token by removing set/update
@@ -190,7 +290,7 @@ export function createProto<T extends object, C extends object = object>(
             // The public token exposes the proto as if it's always initialized
             // Accessing the signal before initState() will return null, which
             // is validated in injectState()
-            return proto as unknown as ProtoState<T, C>;
+            return proto as unknown as ProtoState<T, C, E>;
           },
         },
         {
@@ -219,9 +319,9 @@ export function createProto<T extends object, C extends object = object>(
       ];
     }
 
-    function injectState(opts?: InjectOptions & { optional?: false }): ProtoState<T, C>;
-    function injectState(opts: InjectOptions & { optional: true }): ProtoState<T, C> | null;
-    function injectState(opts: InjectOptions = {}): ProtoState<T, C> | null {
+    function injectState(opts?: InjectOptions & { optional?: false }): ProtoState<T, C, E>;
+    function injectState(opts: InjectOptions & { optional: true }): ProtoState<T, C, E> | null;
+    function injectState(opts: InjectOptions = {}): ProtoState<T, C, E> | null {
       const state = inject(publicToken, opts);
 
       if (!opts.optional && (!state || !state())) {
@@ -233,7 +333,7 @@ export function createProto<T extends object, C extends object = object>(
       return state ?? null;
     }
 
-    function initState(instance: T): ProtoState<T, C> {
+    function initState(instance: T): ProtoState<T, C, E> {
       const proto = inject(internalProtoToken);
 
       // Check if already initialized
@@ -248,7 +348,9 @@ export function createProto<T extends object, C extends object = object>(
       }
 
       const injector = inject(Injector);
-      const hooks = inject<ProtoHook<T, C>[]>(hooksToken, { optional: true }) ?? [];
+      const hooks = resolveProtoHooks(inject(hooksToken, { optional: true }) ?? [], name, {
+        warn: true,
+      });
 
       // Wrap all InputSignals with controlled input behavior
       let inputCount = 0;
@@ -272,11 +374,18 @@ export function createProto<T extends object, C extends object = object>(
       proto.set(instance as ProtoDirective<T>);
 
       // Run hooks in injection context
-      runInInjectionContext(injector, () => {
-        for (const hook of hooks) {
-          hook(proto as unknown as ProtoState<T, C>);
-        }
-      });
+      runInInjectionContext(injector, () =>
+        runProtoHooks(proto as unknown as ProtoState<T, C, E>, hooks),
+      );
+
+      // List the proto in the devtools inspector while it is alive
+      if (isDevMode()) {
+        trackProto(
+          proto as unknown as ProtoState<object, object>,
+          hooks as unknown as ProtoHook<object, object>[],
+          inject(DestroyRef),
+        );
+      }
 
       return inject(publicToken); // only expose the immutable public token
     }
@@ -307,7 +416,7 @@ export function createProto<T extends object, C extends object = object>(
       return deepMerge(defaultCfg, ...contributions) as C;
     }
 
-    function provideHooks(...hooks: ProtoHook<T, C>[]): Provider {
+    function provideHooks(...hooks: ProtoHook<T, C, E>[]): Provider {
       return {
         provide: hooksToken,
         useFactory: () => {
@@ -317,8 +426,12 @@ export function createProto<T extends object, C extends object = object>(
       };
     }
 
-    function injectHooks(opts: Omit<InjectOptions, 'optional'> = {}): ProtoHook<T, C>[] {
-      return inject(hooksToken, { ...opts, optional: true }) ?? [];
+    /**
+     * The hooks in the order they run, after applying `replace`, `exclude`, `before` and `after`.
+     * The token holds them as provided. Resolved once per list, and cached.
+     */
+    function injectHooks(opts: Omit<InjectOptions, 'optional'> = {}): ProtoHook<T, C, E>[] {
+      return resolveProtoHooks(inject(hooksToken, { ...opts, optional: true }) ?? [], name);
     }
 
     const definition: Record<string, unknown> = {
@@ -343,6 +456,6 @@ export function createProto<T extends object, C extends object = object>(
     }
 
     Object.assign(initState, definition);
-    return initState as Proto<T, C>;
+    return initState as Proto<T, C, E>;
   };
 }
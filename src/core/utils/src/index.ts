@@ -3,6 +3,7 @@ export * from './lib/element-ref';
 export * from './lib/isomorphic-effect';
 export * from './lib/listener';
 export * from './lib/obj';
+export * from './lib/presence';
 export * from './lib/signals';
 export * from './lib/types';
 export * from './lib/unique-id';
@@ -0,0 +1,172 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  ElementRef,
+  PLATFORM_ID,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { render, screen } from '@testing-library/angular';
+import { presence } from './presence';
+
+describe('presence', () => {
+  @Component({
+    selector: 'test-presence',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    template: `
+      @if (presence.isPresent()) {
+        <div #panel data-testid="panel" [attr.data-state]="presence.status()">Panel</div>
+      }
+    `,
+  })
+  class TestPresenceComponent {
+    readonly open = signal(false);
+    readonly panel = viewChild<ElementRef<HTMLElement>>('panel');
+    readonly presence = presence(
+      this.open,
+      computed(() => this.panel()?.nativeElement ?? null),
+      { timeout: 50 },
+    );
+  }
+
+  // jsdom does not implement the Web Animations API
+  let finish: () => void = () => undefined;
+  const getAnimations = vi.fn(() => []);
+
+  beforeAll(() => {
+    HTMLElement.prototype.getAnimations = getAnimations;
+  });
+
+  afterEach(() => {
+    getAnimations.mockReset();
+    getAnimations.mockImplementation(() => []);
+  });
+
+  afterAll(() => {
+    delete (HTMLElement.prototype as Partial<HTMLElement>).getAnimations;
+  });
+
+  function mockExitAnimation(): void {
+    const finished = new Promise<void>(resolve => (finish = resolve));
+    getAnimations.mockImplementation(() => [{ finished }] as never);
+  }
+
+  it('should be present while open', async () => {
+    const { fixture } = await render(TestPresenceComponent);
+    const component = fixture.componentInstance;
+
+    expect(component.presence.status()).toBe('closed');
+    expect(screen.queryByTestId('panel')).not.toBeInTheDocument();
+
+    component.open.set(true);
+    fixture.detectChanges();
+
+    expect(component.presence.isPresent()).toBe(true);
+    expect(screen.getByTestId('panel')).toHaveAttribute('data-state', 'open');
+  });
+
+  it('should unmount immediately without exit animations', async () => {
+    const { fixture } = await render(TestPresenceComponent);
+    const component = fixture.componentInstance;
+
+    component.open.set(true);
+    fixture.detectChanges();
+    component.open.set(false);
+    fixture.detectChanges();
+
+    expect(component.presence.status()).toBe('closed');
+    expect(screen.queryByTestId('panel')).not.toBeInTheDocument();
+  });
+
+  it('should stay present until the exit animations finished', async () => {
+    const { fixture } = await render(TestPresenceComponent);
+    const component = fixture.componentInstance;
+
+    component.open.set(true);
+    fixture.detectChanges();
+    mockExitAnimation();
+    component.open.set(false);
+    fixture.detectChanges();
+
+    expect(component.presence.status()).toBe('closing');
+    expect(screen.getByTestId('panel')).toHaveAttribute('data-state', 'closing');
+    expect(getAnimations).toHaveBeenCalledWith({ subtree: true });
+
+    finish();
+    await fixture.whenStable();
+
+    expect(component.presence.status()).toBe('closed');
+    expect(screen.queryByTestId('panel')).not.toBeInTheDocument();
+  });
+
+  it('should unmount after the timeout', async () => {
+    const { fixture } = await render(TestPresenceComponent);
+    const component = fixture.componentInstance;
+
+    component.open.set(true);
+    fixture.detectChanges();
+    mockExitAnimation();
+    component.open.set(false);
+    fixture.detectChanges();
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(component.presence.status()).toBe('closed');
+  });
+
+  it('should reopen while closing', async () => {
+    const { fixture } = await render(TestPresenceComponent);
+    const component = fixture.componentInstance;
+
+    component.open.set(true);
+    fixture.detectChanges();
+    mockExitAnimation();
+    component.open.set(false);
+    fixture.detectChanges();
+    component.open.set(true);
+    fixture.detectChanges();
+
+    finish();
+    await fixture.whenStable();
+
+    expect(component.presence.status()).toBe('open');
+    expect(screen.getByTestId('panel')).toBeInTheDocument();
+  });
+
+  it('should unmount immediately during SSR', async () => {
+    const { fixture } = await render(TestPresenceComponent, {
+      providers: [{ provide: PLATFORM_ID, useValue: 'server' }],
+    });
+    const component = fixture.componentInstance;
+
+    component.open.set(true);
+    fixture.detectChanges();
+    mockExitAnimation();
+    component.open.set(false);
+    fixture.detectChanges();
+
+    expect(component.presence.status()).toBe('closed');
+  });
+
+  it('should unmount immediately when reduced motion is preferred', async () => {
+    const matchMedia = vi.fn(() => ({ matches: true }) as MediaQueryList);
+    window.matchMedia = matchMedia;
+
+    try {
+      const { fixture } = await render(TestPresenceComponent);
+      const component = fixture.componentInstance;
+
+      component.open.set(true);
+      fixture.detectChanges();
+      mockExitAnimation();
+      component.open.set(false);
+      fixture.detectChanges();
+
+      expect(matchMedia).toHaveBeenCalledWith('(prefers-reduced-motion: reduce)');
+      expect(component.presence.status()).toBe('closed');
+    } finally {
+      delete (window as Partial<Window>).matchMedia;
+    }
+  });
+});
@@ -0,0 +1,196 @@
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import type { Signal } from '@angular/core';
+import {
+  afterRenderEffect,
+  computed,
+  effect,
+  inject,
+  Injector,
+  PLATFORM_ID,
+  runInInjectionContext,
+  signal,
+  untracked,
+} from '@angular/core';
+import { type MaybeFn, unwrapFn } from './types';
+
+/**
+ * Presence status of an element that animates out before it is removed.
+ * - `open`: Present and open
+ * - `closing`: Closed, but kept present while its exit animations run
+ * - `closed`: Closed and no longer present
+ */
+export type PresenceStatus = 'open' | 'closing' | 'closed';
+
+export interface Presence {
+  /** Whether the element should be rendered, including while it animates out. */
+  readonly isPresent: Signal<boolean>;
+  /** The presence status. */
+  readonly status: Signal<PresenceStatus>;
+}
+
+export interface PresenceOptions {
+  /** Injector to create the effects with, when not called in an injection context. */
+  readonly injector?: Injector;
+  /**
+   * Maximum time in milliseconds to wait for exit animations.
+   * @default 1000
+   */
+  readonly timeout?: MaybeFn<number>;
+}
+
+/**
+ * Keeps an element present after it closes, until the animations and transitions started
+ * by the close have finished, so exit animations can play before it is removed.
+ *
+ * Reflect the status on the element, for example as `data-state`, to start exit
+ * animations from CSS. The running animations are read after the next render with
+ * the Web Animations API, falling back to `animationend`/`transitionend` events.
+ *
+ * The element is removed immediately when nothing animates, during SSR and when the
+ * user prefers reduced motion, and after the timeout at the latest.
+ *
+ * @param open - Whether the element is open
+ * @param element - The rendered element, or null while it is not rendered
+ *
+ * @example
+ * ```ts
+ * readonly presence = presence(this.open, this.panel);
+ * ```
+ * ```html
+ * @if (presence.isPresent()) {
+ *   <div #panel [attr.data-state]="presence.status() === 'open' ? 'open' : 'closed'">...</div>
+ * }
+ * ```
+ */
+export function presence(
+  open: Signal<boolean>,
+  element: Signal<HTMLElement | null>,
+  options?: PresenceOptions,
+): Presence {
+  return runInInjectionContext(options?.injector ?? inject(Injector), () => {
+    const document = inject(DOCUMENT);
+    const animates = isPlatformBrowser(inject(PLATFORM_ID)) && !prefersReducedMotion(document);
+    const closing = signal(false);
+    const status = computed((): PresenceStatus => {
+      if (open()) {
+        return 'open';
+      }
+      return closing() ? 'closing' : 'closed';
+    });
+
+    let wasOpen = false;
+    effect(() => {
+      const isOpen = open();
+
+      untracked(() => {
+        closing.set(!isOpen && wasOpen && animates && element() !== null);
+        wasOpen = isOpen;
+      });
+    });
+
+    // The closed state is rendered by now, so the exit animations it started are running
+    afterRenderEffect(onCleanup => {
+      if (status() !== 'closing') {
+        return;
+      }
+
+      const rendered = untracked(element);
+      const timeout = untracked(() => unwrapFn(options?.timeout ?? 1000));
+      const cancel = rendered
+        ? waitForAnimations(rendered, timeout, () => closing.set(false))
+        : null;
+
+      if (cancel) {
+        onCleanup(cancel);
+      } else {
+        closing.set(false);
+      }
+    });
+
+    return {
+      isPresent: computed(() => status() !== 'closed'),
+      status,
+    };
+  });
+}
+
+function prefersReducedMotion(document: Document): boolean {
+  return document.defaultView?.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+}
+
+/**
+ * Waits for the animations and transitions running on an element, and calls `done`
+ * once they finished or after `timeout` milliseconds at the latest.
+ * Returns null without waiting when nothing is animating, a cancel function otherwise.
+ */
+function waitForAnimations(
+  element: HTMLElement,
+  timeout: number,
+  done: () => void,
+): (() => void) | null {
+  const view = element.ownerDocument.defaultView;
+  if (!view) {
+    return null;
+  }
+
+  const cleanups: (() => void)[] = [];
+  const cancel = () => {
+    for (const cleanup of cleanups.splice(0)) {
+      cleanup();
+    }
+  };
+  const finish = () => {
+    cancel();
+    done();
+  };
+
+  if (typeof element.getAnimations === 'function') {
+    // Include the exit animations of descendants, not only of the element itself
+    const animations = element.getAnimations({ subtree: true });
+    if (animations.length === 0) {
+      return null;
+    }
+
+    let cancelled = false;
+    Promise.allSettled(animations.map(animation => animation.finished)).then(() => {
+      if (!cancelled) {
+        finish();
+      }
+    });
+    cleanups.push(() => (cancelled = true));
+  } else {
+    const style = view.getComputedStyle(element);
+    const animating =
+      (style.animationName !== 'none' && hasDuration(style.animationDuration)) ||
+      hasDuration(style.transitionDuration);
+    if (!animating) {
+      return null;
+    }
+
+    const events = ['animationend', 'animationcancel', 'transitionend', 'transitioncancel'];
+    const handler = (event: Event) => {
+      if (event.target === element) {
+        finish();
+      }
+    };
+    for (const type of events) {
+      element.addEventListener(type, handler);
+    }
+    cleanups.push(() => {
+      for (const type of events) {
+        element.removeEventListener(type, handler);
+      }
+    });
+  }
+
+  const timer = setTimeout(finish, timeout);
+  cleanups.push(() => clearTimeout(timer));
+  return cancel;
+}
+
+/**
+ * Whether a computed `animation-duration` or `transition-duration` list has a non-zero entry.
+ */
+function hasDuration(value: string): boolean {
+  return value.split(',').some(duration => parseFloat(duration) > 0);
+}
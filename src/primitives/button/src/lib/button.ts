@@ -30,18 +30,21 @@ const protoFor = createProto<PrimitiveButton>();
   ],
   providers: [
     PrimitiveButton.State.provide(),
-    ProtoInteract.Hooks.provide(state => {
-      const ngpHover = ProtoHover.State.inject({ self: true });
-      const ngpPress = ProtoPress.State.inject({ self: true });
-      const ngpFocusVisible = ProtoFocusVisible.State.inject({ self: true });
+    ProtoInteract.Hooks.provide({
+      name: 'primitive-button-disabled',
+      init: state => {
+        const ngpHover = ProtoHover.State.inject({ self: true });
+        const ngpPress = ProtoPress.State.inject({ self: true });
+        const ngpFocusVisible = ProtoFocusVisible.State.inject({ self: true });
 
-      effect(() => {
-        const disabled = state().disabled();
-        const focusable = state().focusable();
-        ngpHover().disabled.control(disabled);
-        ngpPress().disabled.control(disabled);
-        ngpFocusVisible().disabled.control(disabled && !focusable);
-      });
+        effect(() => {
+          const disabled = state().disabled();
+          const focusable = state().focusable();
+          ngpHover().disabled.control(disabled);
+          ngpPress().disabled.control(disabled);
+          ngpFocusVisible().disabled.control(disabled && !focusable);
+        });
+      },
     }),
   ],
 })
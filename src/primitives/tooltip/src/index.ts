@@ -1 +1,6 @@
-export * from './lib/tooltip-module';
+export {
+  PrimitiveTooltip,
+  PrimitiveTooltipTrigger,
+  type PrimitiveTooltipConfig,
+} from './lib/tooltip';
+export { PrimitiveTooltipGroup, type PrimitiveTooltipGroupConfig } from './lib/tooltip-group';
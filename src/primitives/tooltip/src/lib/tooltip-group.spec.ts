@@ -0,0 +1,100 @@
+import { ChangeDetectionStrategy, Component } from '@angular/core';
+import { render, screen } from '@testing-library/angular';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrimitiveTooltip, PrimitiveTooltipTrigger } from './tooltip';
+import { PrimitiveTooltipGroup } from './tooltip-group';
+
+@Component({
+  selector: 'test-tooltip-group',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [PrimitiveTooltipGroup, PrimitiveTooltipTrigger, PrimitiveTooltip],
+  template: `
+    <div data-testid="group" primitiveTooltipGroup showDelay="300" skipDelay="200">
+      <button #first="protoAnchor" data-testid="first-trigger" primitiveTooltipTrigger>
+        First
+      </button>
+      <div *primitiveTooltip="first" data-testid="first-tooltip">First tooltip</div>
+
+      <button #second="protoAnchor" data-testid="second-trigger" primitiveTooltipTrigger>
+        Second
+      </button>
+      <div *primitiveTooltip="second" data-testid="second-tooltip">Second tooltip</div>
+    </div>
+  `,
+})
+class TestTooltipGroup {}
+
+function pointer(testId: string, type: 'pointerenter' | 'pointerleave'): void {
+  screen
+    .getByTestId(testId)
+    .dispatchEvent(new PointerEvent(type, { bubbles: true, pointerType: 'mouse' }));
+}
+
+describe('PrimitiveTooltipGroup', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait for the show delay before opening the first tooltip', async () => {
+    const { fixture } = await render(TestTooltipGroup);
+
+    pointer('first-trigger', 'pointerenter');
+    fixture.detectChanges();
+    vi.advanceTimersByTime(299);
+    fixture.detectChanges();
+    expect(screen.queryByTestId('first-tooltip')).not.toBeInTheDocument();
+
+    vi.advanceTimersByTime(1);
+    fixture.detectChanges();
+    expect(screen.getByTestId('first-tooltip')).toBeInTheDocument();
+    expect(screen.getByTestId('group')).toHaveAttribute('data-skip-delay', '');
+  });
+
+  it('should open a neighbor immediately and close the previous tooltip', async () => {
+    const { fixture } = await render(TestTooltipGroup);
+
+    pointer('first-trigger', 'pointerenter');
+    fixture.detectChanges();
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    pointer('first-trigger', 'pointerleave');
+    pointer('second-trigger', 'pointerenter');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(screen.getByTestId('second-tooltip')).toBeInTheDocument();
+    expect(screen.queryByTestId('first-tooltip')).not.toBeInTheDocument();
+  });
+
+  it('should restore the show delay after the skip delay has elapsed', async () => {
+    const { fixture } = await render(TestTooltipGroup);
+
+    pointer('first-trigger', 'pointerenter');
+    fixture.detectChanges();
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    pointer('first-trigger', 'pointerleave');
+    fixture.detectChanges();
+    vi.advanceTimersByTime(150);
+    fixture.detectChanges();
+    expect(screen.queryByTestId('first-tooltip')).not.toBeInTheDocument();
+
+    vi.advanceTimersByTime(200);
+    fixture.detectChanges();
+    expect(screen.getByTestId('group')).not.toHaveAttribute('data-skip-delay');
+
+    pointer('second-trigger', 'pointerenter');
+    fixture.detectChanges();
+    expect(screen.queryByTestId('second-tooltip')).not.toBeInTheDocument();
+
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+    expect(screen.getByTestId('second-tooltip')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,157 @@
+import { createProto, type ProtoAncestorEntry } from '@angular-proto/core';
+import {
+  computed,
+  DestroyRef,
+  Directive,
+  effect,
+  inject,
+  input,
+  numberAttribute,
+  signal,
+  untracked,
+} from '@angular/core';
+import { type PrimitiveTooltipConfig, PrimitiveTooltipTrigger } from './tooltip';
+
+export interface PrimitiveTooltipGroupConfig {
+  /**
+   * Default time window in milliseconds after a tooltip closes during which
+   * the next tooltip in the group opens without delay.
+   * @default 300
+   */
+  readonly defaultSkipDelay: number;
+}
+
+const protoFor = createProto<PrimitiveTooltipGroup, PrimitiveTooltipGroupConfig>({
+  defaultSkipDelay: 300,
+});
+
+/**
+ * Directive that coordinates the open delay of all tooltip triggers inside it.
+ *
+ * The first tooltip waits for `showDelay`. While a tooltip of the group is open,
+ * and for `skipDelay` after it closed, moving to another trigger opens its tooltip
+ * immediately and closes the previous one. Nested groups coordinate their own triggers.
+ *
+ * The group controls the `showDelay` of its triggers, so per-trigger values are ignored.
+ *
+ * ## Data Attributes
+ * - `data-skip-delay`: Present while tooltips open without delay
+ *
+ * @example
+ * ```html
+ * <div primitiveTooltipGroup role="toolbar">
+ *   <button #bold="protoAnchor" primitiveTooltipTrigger>B</button>
+ *   <div *primitiveTooltip="bold">Bold</div>
+ *
+ *   <button #italic="protoAnchor" primitiveTooltipTrigger>I</button>
+ *   <div *primitiveTooltip="italic">Italic</div>
+ * </div>
+ * ```
+ */
+@Directive({
+  selector: '[primitiveTooltipGroup]',
+  exportAs: 'primitiveTooltipGroup',
+  host: {
+    '[attr.data-skip-delay]': "isSkippingDelay() ? '' : null",
+  },
+  providers: [PrimitiveTooltipGroup.State.provide()],
+})
+export class PrimitiveTooltipGroup {
+  private static readonly Proto = protoFor(PrimitiveTooltipGroup);
+  static readonly State = PrimitiveTooltipGroup.Proto.state;
+  static readonly Config = PrimitiveTooltipGroup.Proto.config;
+  static readonly Hooks = PrimitiveTooltipGroup.Proto.hooks;
+
+  private readonly config = PrimitiveTooltipGroup.Config.inject();
+  private readonly triggerConfig = PrimitiveTooltipTrigger.Config.inject();
+
+  private timeout: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Delay in milliseconds before the first tooltip of the group is shown.
+   */
+  readonly showDelay = input<number, string | number>(this.triggerConfig.defaultShowDelay, {
+    transform: numberAttribute,
+    alias: 'showDelay',
+  });
+
+  /**
+   * Time window in milliseconds after a tooltip closes during which the next
+   * tooltip opens without delay.
+   */
+  readonly skipDelay = input<number, string | number>(this.config.defaultSkipDelay, {
+    transform: numberAttribute,
+    alias: 'skipDelay',
+  });
+
+  private readonly _isSkippingDelay = signal(false);
+
+  /**
+   * Whether tooltips in the group currently open without delay.
+   */
+  readonly isSkippingDelay = this._isSkippingDelay.asReadonly();
+
+  readonly state = PrimitiveTooltipGroup.Proto(this);
+
+  /**
+   * The tooltip triggers coordinated by this group, excluding those of nested groups.
+   */
+  readonly triggers = computed(() =>
+    this.state.ancestry
+      .childrenOfType(PrimitiveTooltipTrigger.State.token)()
+      .filter(
+        entry =>
+          entry.state.ancestry.parentOfType(PrimitiveTooltipGroup.State.token)?.state ===
+          this.state,
+      ),
+  );
+
+  constructor() {
+    let previouslyOpen = new Set<
+      ProtoAncestorEntry<PrimitiveTooltipTrigger, PrimitiveTooltipConfig>
+    >();
+
+    // Track open tooltips: keep a single one open and warm up the group
+    effect(() => {
+      const open = new Set(this.triggers().filter(entry => entry.state().isOpen()));
+
+      untracked(() => {
+        if (open.size > 1) {
+          for (const entry of previouslyOpen) {
+            if (open.has(entry)) {
+              entry.state().hide(0);
+            }
+          }
+        }
+        previouslyOpen = open;
+
+        if (open.size > 0) {
+          this.clearTimeout();
+          this._isSkippingDelay.set(true);
+        } else if (this._isSkippingDelay() && this.timeout === undefined) {
+          this.timeout = setTimeout(() => {
+            this.timeout = undefined;
+            this._isSkippingDelay.set(false);
+          }, this.skipDelay());
+        }
+      });
+    });
+
+    // Drive the open delay of every trigger in the group
+    effect(() => {
+      const delay = this.isSkippingDelay() ? 0 : this.showDelay();
+      for (const entry of this.triggers()) {
+        untracked(() => entry.state().showDelay.control(delay));
+      }
+    });
+
+    inject(DestroyRef).onDestroy(() => this.clearTimeout());
+  }
+
+  private clearTimeout(): void {
+    if (this.timeout !== undefined) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+}
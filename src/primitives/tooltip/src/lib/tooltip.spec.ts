@@ -0,0 +1,140 @@
+import { ProtoAnchor } from '@angular-proto/core/anchor';
+import { ChangeDetectionStrategy, Component, signal, viewChild } from '@angular/core';
+import { fireEvent, render, screen } from '@testing-library/angular';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrimitiveTooltip, PrimitiveTooltipTrigger } from './tooltip';
+
+@Component({
+  selector: 'test-tooltip',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [PrimitiveTooltipTrigger, PrimitiveTooltip],
+  template: `
+    <button
+      #anchor="protoAnchor"
+      data-testid="tooltip-trigger"
+      primitiveTooltipTrigger
+      [hideDelay]="hideDelay()"
+      [showDelay]="showDelay()"
+    >
+      Save
+    </button>
+
+    <div *primitiveTooltip="anchor" data-testid="tooltip">Save your changes</div>
+  `,
+})
+class TestTooltip {
+  readonly anchor = viewChild.required('anchor', { read: ProtoAnchor });
+  readonly showDelay = signal(300);
+  readonly hideDelay = signal(100);
+}
+
+function pointer(element: HTMLElement, type: 'pointerenter' | 'pointerleave'): void {
+  element.dispatchEvent(new PointerEvent(type, { bubbles: true, pointerType: 'mouse' }));
+}
+
+describe('PrimitiveTooltip', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should show the tooltip after the show delay', async () => {
+    const { fixture } = await render(TestTooltip);
+    const trigger = screen.getByTestId('tooltip-trigger');
+
+    pointer(trigger, 'pointerenter');
+    fixture.detectChanges();
+    expect(screen.queryByTestId('tooltip')).not.toBeInTheDocument();
+
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+    expect(screen.getByTestId('tooltip')).toBeInTheDocument();
+    expect(fixture.componentInstance.anchor().openChangeReason()).toBe('trigger');
+  });
+
+  it('should hide the tooltip after the hide delay', async () => {
+    const { fixture } = await render(TestTooltip);
+    const trigger = screen.getByTestId('tooltip-trigger');
+
+    pointer(trigger, 'pointerenter');
+    fixture.detectChanges();
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    pointer(trigger, 'pointerleave');
+    fixture.detectChanges();
+    expect(screen.getByTestId('tooltip')).toBeInTheDocument();
+
+    vi.advanceTimersByTime(100);
+    fixture.detectChanges();
+    expect(screen.queryByTestId('tooltip')).not.toBeInTheDocument();
+    expect(fixture.componentInstance.anchor().openChangeReason()).toBe('trigger');
+  });
+
+  it('should open immediately when the show delay is 0', async () => {
+    const { fixture } = await render(TestTooltip);
+    fixture.componentInstance.showDelay.set(0);
+    fixture.detectChanges();
+
+    pointer(screen.getByTestId('tooltip-trigger'), 'pointerenter');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(screen.getByTestId('tooltip')).toBeInTheDocument();
+  });
+
+  it('should stay open while the tooltip itself is hovered', async () => {
+    const { fixture } = await render(TestTooltip);
+    const trigger = screen.getByTestId('tooltip-trigger');
+
+    pointer(trigger, 'pointerenter');
+    fixture.detectChanges();
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    pointer(trigger, 'pointerleave');
+    fixture.detectChanges();
+    pointer(screen.getByTestId('tooltip'), 'pointerenter');
+    fixture.detectChanges();
+    vi.advanceTimersByTime(100);
+    fixture.detectChanges();
+
+    expect(screen.getByTestId('tooltip')).toBeInTheDocument();
+  });
+
+  it('should link the trigger and tooltip for assistive technology', async () => {
+    const { fixture } = await render(TestTooltip);
+    const trigger = screen.getByTestId('tooltip-trigger');
+
+    expect(trigger).not.toHaveAttribute('aria-describedby');
+    expect(trigger).not.toHaveAttribute('aria-haspopup');
+
+    pointer(trigger, 'pointerenter');
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+
+    const tooltip = screen.getByTestId('tooltip');
+    expect(tooltip).toHaveAttribute('role', 'tooltip');
+    expect(tooltip.id).toMatch(/^primitive-tooltip-/);
+    expect(trigger).toHaveAttribute('aria-describedby', tooltip.id);
+    expect(trigger).not.toHaveAttribute('aria-expanded');
+  });
+
+  it('should close on Escape', async () => {
+    const { fixture } = await render(TestTooltip);
+    const trigger = screen.getByTestId('tooltip-trigger');
+
+    pointer(trigger, 'pointerenter');
+    vi.advanceTimersByTime(300);
+    fixture.detectChanges();
+    expect(screen.getByTestId('tooltip')).toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    fixture.detectChanges();
+
+    expect(screen.queryByTestId('tooltip')).not.toBeInTheDocument();
+  });
+});
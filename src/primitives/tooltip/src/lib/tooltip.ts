@@ -0,0 +1,307 @@
+import { createProto } from '@angular-proto/core';
+import {
+  ProtoAnchor,
+  ProtoAnchorTarget,
+  type ProtoAnchorTargetContext,
+} from '@angular-proto/core/anchor';
+import { ProtoFocusVisible } from '@angular-proto/core/focus-visible';
+import { ProtoHover } from '@angular-proto/core/hover';
+import { listener, uniqueId } from '@angular-proto/core/utils';
+import {
+  computed,
+  DestroyRef,
+  Directive,
+  effect,
+  inject,
+  Injector,
+  input,
+  numberAttribute,
+  signal,
+  untracked,
+} from '@angular/core';
+
+// ============================================================================
+// PrimitiveTooltipTrigger Configuration
+// ============================================================================
+
+export interface PrimitiveTooltipConfig {
+  /**
+   * Default delay in milliseconds before the tooltip is shown.
+   * @default 600
+   */
+  readonly defaultShowDelay: number;
+
+  /**
+   * Default delay in milliseconds before the tooltip is hidden.
+   * Gives the pointer time to travel from the trigger onto the tooltip.
+   * @default 150
+   */
+  readonly defaultHideDelay: number;
+}
+
+const defaultTooltipConfig: PrimitiveTooltipConfig = {
+  defaultShowDelay: 600,
+  defaultHideDelay: 150,
+};
+
+// ============================================================================
+// PrimitiveTooltipTrigger Directive
+// ============================================================================
+
+const protoForTrigger = createProto<PrimitiveTooltipTrigger, PrimitiveTooltipConfig>(
+  defaultTooltipConfig,
+);
+
+/**
+ * Directive that marks an element as the trigger of a tooltip.
+ *
+ * The tooltip opens after `showDelay` when the trigger is hovered or receives
+ * keyboard focus, and closes after `hideDelay` once neither is the case.
+ *
+ * ## Data Attributes
+ * - `data-anchor-open`: Present when the tooltip is open (from `ProtoAnchor`)
+ * - `data-hover`: Present when the trigger is hovered (from `ProtoHover`)
+ * - `data-focus-visible`: Present when the trigger has visible focus (from `ProtoFocusVisible`)
+ *
+ * @example
+ * ```html
+ * <button #anchor="protoAnchor" primitiveTooltipTrigger placement="top">Save</button>
+ *
+ * <div *primitiveTooltip="anchor">Save your changes</div>
+ * ```
+ */
+@Directive({
+  selector: '[primitiveTooltipTrigger]',
+  exportAs: 'primitiveTooltipTrigger',
+  hostDirectives: [
+    ProtoHover,
+    ProtoFocusVisible,
+    {
+      directive: ProtoAnchor,
+      inputs: [
+        'protoAnchorPlacement:placement',
+        'protoAnchorOffset:offset',
+        'protoAnchorFlipBehavior:flipBehavior',
+        'protoAnchorDisabled:tooltipDisabled',
+      ],
+      outputs: ['protoAnchorOpenChange:tooltipOpenChange'],
+    },
+  ],
+  providers: [
+    PrimitiveTooltipTrigger.State.provide(),
+    ProtoAnchor.Hooks.provide(state => {
+      // Tooltips are descriptions, not popups: no aria-haspopup or aria-expanded
+      state().popupType.control(null);
+      state().relationship.control('describedby');
+    }),
+  ],
+})
+export class PrimitiveTooltipTrigger {
+  private static readonly Proto = protoForTrigger(PrimitiveTooltipTrigger);
+  static readonly State = PrimitiveTooltipTrigger.Proto.state;
+  static readonly Config = PrimitiveTooltipTrigger.Proto.config;
+  static readonly Hooks = PrimitiveTooltipTrigger.Proto.hooks;
+
+  private readonly config = PrimitiveTooltipTrigger.Config.inject();
+  private readonly anchor = ProtoAnchor.State.inject({ self: true });
+  private readonly hover = ProtoHover.State.inject({ self: true });
+  private readonly focusVisible = ProtoFocusVisible.State.inject({ self: true });
+
+  private timeout: ReturnType<typeof setTimeout> | undefined;
+
+  private readonly _isContentHovered = signal(false);
+
+  /**
+   * Delay in milliseconds before the tooltip is shown.
+   */
+  readonly showDelay = input<number, string | number>(this.config.defaultShowDelay, {
+    transform: numberAttribute,
+    alias: 'showDelay',
+  });
+
+  /**
+   * Delay in milliseconds before the tooltip is hidden.
+   */
+  readonly hideDelay = input<number, string | number>(this.config.defaultHideDelay, {
+    transform: numberAttribute,
+    alias: 'hideDelay',
+  });
+
+  /**
+   * Id assigned to the rendered tooltip and referenced by `aria-describedby`.
+   */
+  readonly tooltipId = input<string>(uniqueId('primitive-tooltip'), { alias: 'tooltipId' });
+
+  /**
+   * Whether the tooltip is currently open.
+   */
+  readonly isOpen = computed(() => this.anchor().isOpen());
+
+  readonly state = PrimitiveTooltipTrigger.Proto(this);
+
+  constructor() {
+    // Open while hovered or keyboard focused, close otherwise
+    effect(() => {
+      const active =
+        this.hover().isHovered() ||
+        this.focusVisible().isFocusVisible() ||
+        this._isContentHovered();
+      untracked(() => (active ? this.show() : this.hide()));
+    });
+
+    inject(DestroyRef).onDestroy(() => this.clearTimeout());
+  }
+
+  // -------------------------------------------------------------------------
+  // Public API
+  // -------------------------------------------------------------------------
+
+  /**
+   * Shows the tooltip after the given delay.
+   * Cancels any pending hide.
+   */
+  show(delay: number = this.showDelay()): void {
+    this.clearTimeout();
+
+    if (this.anchor().isOpen()) {
+      return;
+    }
+
+    if (delay <= 0) {
+      this.anchor().open('trigger');
+      return;
+    }
+
+    this.timeout = setTimeout(() => this.anchor().open('trigger'), delay);
+  }
+
+  /**
+   * Hides the tooltip after the given delay.
+   * Cancels any pending show.
+   */
+  hide(delay: number = this.hideDelay()): void {
+    this.clearTimeout();
+
+    if (!this.anchor().isOpen()) {
+      return;
+    }
+
+    if (delay <= 0) {
+      this.anchor().close('trigger');
+      return;
+    }
+
+    this.timeout = setTimeout(() => this.anchor().close('trigger'), delay);
+  }
+
+  /**
+   * Reports whether the rendered tooltip is hovered, keeping it open while it is.
+   * Called by `PrimitiveTooltip`.
+   */
+  setContentHovered(hovered: boolean): void {
+    this._isContentHovered.set(hovered);
+  }
+
+  private clearTimeout(): void {
+    if (this.timeout !== undefined) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+}
+
+// ============================================================================
+// PrimitiveTooltip Structural Directive
+// ============================================================================
+
+/**
+ * Structural directive that renders the tooltip content next to its trigger.
+ *
+ * Positioning, Escape dismissal and show/hide are handled by `ProtoAnchorTarget`.
+ * The rendered element receives `role="tooltip"` and the trigger's `tooltipId`,
+ * and keeps the tooltip open while it is hovered.
+ *
+ * @example
+ * ```html
+ * <button #anchor="protoAnchor" primitiveTooltipTrigger>Save</button>
+ *
+ * <div *primitiveTooltip="anchor; placement: 'top'" class="tooltip">Save your changes</div>
+ * ```
+ */
+@Directive({
+  selector: '[primitiveTooltip]',
+  exportAs: 'primitiveTooltip',
+  hostDirectives: [
+    {
+      directive: ProtoAnchorTarget,
+      inputs: [
+        'protoAnchorTarget:primitiveTooltip',
+        'protoAnchorTargetPlacement:primitiveTooltipPlacement',
+        'protoAnchorTargetOffset:primitiveTooltipOffset',
+        'protoAnchorTargetFlipBehavior:primitiveTooltipFlipBehavior',
+        'protoAnchorTargetZIndex:primitiveTooltipZIndex',
+      ],
+    },
+  ],
+})
+export class PrimitiveTooltip {
+  private readonly target = ProtoAnchorTarget.State.inject({ self: true });
+  private readonly injector = inject(Injector);
+
+  /**
+   * The trigger this tooltip belongs to, resolved from the anchor's injector.
+   */
+  readonly trigger = computed(() =>
+    this.target().anchor().state.injector.get(PrimitiveTooltipTrigger.State.token, null),
+  );
+
+  constructor() {
+    // Render with the trigger's tooltip id, referenced by its aria-describedby
+    effect(() => {
+      const trigger = this.trigger();
+      if (trigger) {
+        this.target().id.control(trigger().tooltipId());
+      }
+    });
+
+    // Decorate the rendered element and keep the tooltip open while it is hovered
+    effect(onCleanup => {
+      const element = this.target().rootElement();
+      const trigger = this.trigger();
+      if (!element || !trigger) {
+        return;
+      }
+
+      element.setAttribute('role', 'tooltip');
+
+      const removeEnter = listener(
+        element,
+        'pointerenter',
+        () => trigger().setContentHovered(true),
+        { injector: this.injector },
+      );
+      const removeLeave = listener(
+        element,
+        'pointerleave',
+        () => trigger().setContentHovered(false),
+        { injector: this.injector },
+      );
+
+      onCleanup(() => {
+        removeEnter();
+        removeLeave();
+        trigger().setContentHovered(false);
+      });
+    });
+  }
+
+  /**
+   * Static method for Angular's structural directive type checking.
+   */
+  static ngTemplateContextGuard(
+    _dir: PrimitiveTooltip,
+    _ctx: unknown,
+  ): _ctx is ProtoAnchorTargetContext {
+    return true;
+  }
+}